@@ -0,0 +1,494 @@
+import type {
+  BasePayload,
+  CollectionAfterChangeHook,
+  CollectionConfig,
+  CollectionSlug,
+  Endpoint,
+  Field,
+  JsonObject,
+  PayloadRequest,
+} from "payload";
+import type { UploadApiOptions } from "cloudinary";
+import type { CloudinaryClient } from "./client";
+import type {
+  CloudinaryMappedValue,
+  CloudinaryMetadata,
+  CloudinaryMetadataMapping,
+  CloudinaryUploadDefaults,
+} from "./types";
+
+import { createLocalReq } from "payload";
+import { toRecord } from "./utils";
+
+/**
+ * Tags, context and structured metadata of an asset
+ */
+export type AssetMetadata = {
+  tags: string[];
+  context: Record<string, string>;
+  metadata: Record<string, string | string[]>;
+};
+
+// Field types whose values can't be written from a Cloudinary string
+const UNWRITABLE_FIELD_TYPES = ["relationship", "upload", "join", "ui"];
+
+const EMPTY_METADATA: AssetMetadata = { tags: [], context: {}, metadata: {} };
+
+/**
+ * Every value at a path, through arrays and polymorphic relationships
+ */
+const getPathValues = (value: unknown, segments: string[]): unknown[] => {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => getPathValues(item, segments));
+  }
+  if (typeof value !== "object") return segments.length === 0 ? [value] : [];
+
+  const record = value as Record<string, unknown>;
+  // Polymorphic relationships keep the document under `value`
+  if ("relationTo" in record && "value" in record) {
+    return getPathValues(record.value, segments);
+  }
+  if (segments.length === 0) {
+    // Documents stand for their ID, e.g. unpopulated relationships
+    return record.id !== undefined ? [record.id] : [];
+  }
+  return getPathValues(record[segments[0]], segments.slice(1));
+};
+
+/**
+ * Non-empty strings of a mapped value
+ */
+const resolveValue = async (
+  mapped: CloudinaryMappedValue,
+  doc: JsonObject,
+  req: PayloadRequest,
+): Promise<string[]> => {
+  const value =
+    typeof mapped === "function"
+      ? await mapped({ doc, req })
+      : getPathValues(doc, mapped.split("."));
+
+  return getPathValues(value, [])
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+};
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+const getDefaultTags = (
+  uploadDefaults: CloudinaryUploadDefaults | undefined,
+): string[] => {
+  const tags = uploadDefaults?.tags;
+  return typeof tags === "string" ? tags.split(",") : tags || [];
+};
+
+/**
+ * Resolve the tags, context and structured metadata of a document
+ */
+export const resolveAssetMetadata = async (
+  mapping: CloudinaryMetadataMapping | undefined,
+  doc: JsonObject | undefined,
+  req: PayloadRequest,
+): Promise<AssetMetadata> => {
+  if (!mapping || !doc) return EMPTY_METADATA;
+
+  const tags = await Promise.all(
+    (mapping.tags || []).map((mapped) => resolveValue(mapped, doc, req)),
+  );
+
+  const context: AssetMetadata["context"] = {};
+  for (const [key, mapped] of Object.entries(mapping.context || {})) {
+    const values = await resolveValue(mapped, doc, req);
+    if (values.length > 0) context[key] = values.join(", ");
+  }
+
+  const metadata: AssetMetadata["metadata"] = {};
+  for (const [key, mapped] of Object.entries(mapping.metadata || {})) {
+    const values = await resolveValue(mapped, doc, req);
+    // Multiple values are for set (multi-select) metadata fields
+    if (values.length > 0) {
+      metadata[key] = values.length === 1 ? values[0] : values;
+    }
+  }
+
+  return { tags: unique(tags.flat()), context, metadata };
+};
+
+/**
+ * Upload options carrying the resolved metadata, merged over the defaults
+ */
+export const getAssetMetadataUploadOptions = (
+  resolved: AssetMetadata | undefined,
+  uploadDefaults: CloudinaryUploadDefaults | undefined,
+): UploadApiOptions => {
+  if (!resolved) return {};
+  const { tags, context, metadata } = resolved;
+
+  return {
+    ...(tags.length > 0 && {
+      tags: unique([...getDefaultTags(uploadDefaults), ...tags]),
+    }),
+    ...(Object.keys(context).length > 0 && {
+      context: { ...toRecord(uploadDefaults?.context), ...context },
+    }),
+    ...(Object.keys(metadata).length > 0 && {
+      metadata: { ...toRecord(uploadDefaults?.metadata), ...metadata },
+    }),
+  };
+};
+
+/**
+ * Tags, context and structured metadata reported by Cloudinary
+ * Empty ones are left out, so documents only store what an asset has
+ */
+export const getStoredAssetMetadata = (resource: {
+  tags?: string[];
+  context?: object;
+  metadata?: object;
+}): Pick<CloudinaryMetadata, "tags" | "context" | "metadata"> => {
+  const context = (resource.context as { custom?: Record<string, string> })
+    ?.custom;
+  return {
+    ...(resource.tags?.length && { tags: resource.tags }),
+    ...(context && Object.keys(context).length > 0 && { context }),
+    ...(resource.metadata &&
+      Object.keys(resource.metadata).length > 0 && {
+        metadata: resource.metadata as Record<string, unknown>,
+      }),
+  };
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const without = <T>(
+  record: Record<string, T>,
+  keys: string[],
+): Record<string, T> =>
+  Object.fromEntries(
+    Object.entries(record).filter(([key]) => !keys.includes(key)),
+  );
+
+/**
+ * Collection hook sending mapped fields to Cloudinary when they change
+ *
+ * Only what the mapping produced before is replaced: tags and context added
+ * in the Cloudinary console or through `uploadOptions` are kept
+ */
+export const getAssetMetadataHook =
+  ({
+    cloudinary,
+    mapping,
+  }: {
+    cloudinary: CloudinaryClient;
+    mapping: CloudinaryMetadataMapping;
+  }): CollectionAfterChangeHook =>
+  async ({ collection, context, doc, previousDoc, req }) => {
+    const stored = doc.cloudinary as CloudinaryMetadata | undefined;
+    if (context?.cloudinaryMetadataSync || !stored?.public_id) return doc;
+
+    try {
+      const desired = await resolveAssetMetadata(mapping, doc, req);
+      // A new asset doesn't carry anything the previous document mapped
+      const previous =
+        previousDoc?.cloudinary?.public_id === stored.public_id
+          ? await resolveAssetMetadata(mapping, previousDoc, req)
+          : EMPTY_METADATA;
+
+      const storedTags = stored.tags || [];
+      const storedContext = stored.context || {};
+      const storedMetadata = stored.metadata || {};
+
+      const tags = unique([
+        ...storedTags.filter((tag) => !previous.tags.includes(tag)),
+        ...desired.tags,
+      ]);
+      const assetContext = {
+        ...without(storedContext, Object.keys(previous.context)),
+        ...desired.context,
+      };
+      // Structured metadata is updated field by field, emptied to clear it
+      const clearedKeys = Object.keys(previous.metadata).filter(
+        (key) => !(key in desired.metadata),
+      );
+      const metadataChanges = {
+        ...Object.fromEntries(clearedKeys.map((key) => [key, ""])),
+        ...Object.fromEntries(
+          Object.entries(desired.metadata).filter(
+            ([key, value]) => !isSameValue(storedMetadata[key], value),
+          ),
+        ),
+      };
+      const metadata = {
+        ...without(storedMetadata, clearedKeys),
+        ...desired.metadata,
+      };
+
+      const tagsChanged = !isSameValue(
+        [...tags].sort(),
+        [...storedTags].sort(),
+      );
+      const contextChanged = !isSameValue(assetContext, storedContext);
+      const metadataChanged = Object.keys(metadataChanges).length > 0;
+      if (!tagsChanged && !contextChanged && !metadataChanged) return doc;
+
+      await cloudinary.update(stored.public_id, {
+        resource_type: stored.resource_type,
+        type: stored.type || "upload",
+        ...(tagsChanged && { tags }),
+        ...(contextChanged && { context: assetContext }),
+        ...(metadataChanged && { metadata: metadataChanges }),
+      });
+
+      const cloudinaryData: CloudinaryMetadata = {
+        ...stored,
+        tags,
+        context: assetContext,
+        metadata,
+      };
+      await req.payload.update({
+        collection: collection.slug as CollectionSlug,
+        id: doc.id,
+        data: { cloudinary: cloudinaryData },
+        context: { cloudinaryMetadataSync: true },
+        req,
+      });
+      return { ...doc, cloudinary: cloudinaryData };
+    } catch (error) {
+      // The document is saved either way; the next change retries
+      req.payload.logger.error({
+        error,
+        message: "Error syncing metadata to Cloudinary",
+        id: doc.id,
+      });
+      return doc;
+    }
+  };
+
+/**
+ * Find the field at a path, looking through groups and layout fields
+ */
+const findField = (fields: Field[], segments: string[]): Field | undefined => {
+  for (const field of fields) {
+    if (field.type === "tabs") {
+      for (const tab of field.tabs) {
+        const found =
+          "name" in tab && tab.name
+            ? tab.name === segments[0]
+              ? findField(tab.fields, segments.slice(1))
+              : undefined
+            : findField(tab.fields, segments);
+        if (found) return found;
+      }
+      continue;
+    }
+    if (!("name" in field)) {
+      if ("fields" in field) {
+        const found = findField(field.fields, segments);
+        if (found) return found;
+      }
+      continue;
+    }
+    if (field.name !== segments[0]) continue;
+    if (segments.length === 1) return field;
+    return field.type === "group"
+      ? findField(field.fields, segments.slice(1))
+      : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Check if a mapped path can take a value pulled from Cloudinary
+ */
+const isWritablePath = (
+  collection: CollectionConfig,
+  mapped: CloudinaryMappedValue,
+): mapped is string => {
+  if (typeof mapped !== "string") return false;
+  const field = findField(collection.fields, mapped.split("."));
+  return !!field && !UNWRITABLE_FIELD_TYPES.includes(field.type);
+};
+
+/**
+ * Set a value at a dotted path, creating the groups on the way
+ */
+const setPath = (
+  data: JsonObject,
+  segments: string[],
+  value: unknown,
+  doc: JsonObject,
+): void => {
+  const [segment, ...rest] = segments;
+  if (rest.length === 0) {
+    data[segment] = value;
+    return;
+  }
+  // Sibling fields of a group are kept
+  data[segment] = { ...doc?.[segment], ...data[segment] };
+  setPath(data[segment], rest, value, doc?.[segment]);
+};
+
+export type CloudinaryPullMetadataArgs = {
+  /**
+   * Slug of the collection of the document
+   */
+  collection: string;
+  id: number | string;
+  req?: PayloadRequest;
+};
+
+/**
+ * Pull the tags, context and structured metadata of a document's asset
+ *
+ * They are stored in the `cloudinary` group and written back to the mapped
+ * fields: context and metadata to their field paths, tags to the first tag
+ * path, minus the tags the other entries and `uploadOptions` produce
+ */
+export const getPullAssetMetadata =
+  ({
+    cloudinary,
+    collection,
+    mapping,
+    uploadDefaults,
+  }: {
+    cloudinary: CloudinaryClient;
+    collection: CollectionConfig;
+    mapping: CloudinaryMetadataMapping;
+    uploadDefaults?: CloudinaryUploadDefaults;
+  }) =>
+  async (payload: BasePayload, { id, req }: CloudinaryPullMetadataArgs) => {
+    const slug = collection.slug as CollectionSlug;
+    const doc = await payload.findByID({
+      collection: slug,
+      id,
+      depth: 0,
+      ...(req && { overrideAccess: false, req }),
+    });
+
+    const stored = doc.cloudinary as CloudinaryMetadata | undefined;
+    if (!stored?.public_id) {
+      throw new Error("This document has no Cloudinary asset.");
+    }
+
+    const resource = await cloudinary.resource(stored.public_id, {
+      resource_type: stored.resource_type,
+      type: stored.type || "upload",
+    });
+    const pulled = getStoredAssetMetadata(resource);
+    const data: JsonObject = {
+      cloudinary: {
+        ...stored,
+        tags: pulled.tags || [],
+        context: pulled.context || {},
+        metadata: pulled.metadata || {},
+      },
+    };
+
+    for (const [key, mapped] of Object.entries(mapping.context || {})) {
+      if (isWritablePath(collection, mapped) && pulled.context?.[key]) {
+        setPath(data, mapped.split("."), pulled.context[key], doc);
+      }
+    }
+    for (const [key, mapped] of Object.entries(mapping.metadata || {})) {
+      if (isWritablePath(collection, mapped) && pulled.metadata?.[key]) {
+        setPath(data, mapped.split("."), pulled.metadata[key], doc);
+      }
+    }
+
+    // Tags have no keys, so they all go to one field (a `hasMany` one)
+    const [tagsPath, ...otherTags] = mapping.tags || [];
+    if (tagsPath && isWritablePath(collection, tagsPath)) {
+      const { tags: producedTags } = await resolveAssetMetadata(
+        { tags: otherTags },
+        doc,
+        req || (await createLocalReq({}, payload)),
+      );
+      const defaultTags = getDefaultTags(uploadDefaults);
+      setPath(
+        data,
+        tagsPath.split("."),
+        (pulled.tags || []).filter(
+          (tag) => !producedTags.includes(tag) && !defaultTags.includes(tag),
+        ),
+        doc,
+      );
+    }
+
+    return payload.update({
+      collection: slug,
+      id,
+      data,
+      // Cloudinary already has these values
+      context: { cloudinaryMetadataSync: true },
+      ...(req && { overrideAccess: false, req }),
+    });
+  };
+
+/**
+ * Endpoint that pulls metadata edited in Cloudinary into a document
+ *
+ * `POST /:collection/:id/cloudinary-metadata`
+ */
+export const getPullMetadataEndpoint = ({
+  collection,
+  mapping,
+  pullAssetMetadata,
+}: {
+  collection: CollectionConfig;
+  mapping: CloudinaryMetadataMapping;
+  pullAssetMetadata: ReturnType<typeof getPullAssetMetadata>;
+}): Endpoint => ({
+  path: "/:id/cloudinary-metadata",
+  method: "post",
+  handler: async (req) => {
+    const allowed = mapping.access
+      ? await mapping.access({ collectionSlug: collection.slug, req })
+      : !!req.user;
+    if (!allowed) {
+      return Response.json(
+        {
+          errors: [{ message: "You are not allowed to perform this action." }],
+        },
+        { status: 403 },
+      );
+    }
+
+    const id = req.routeParams?.id as string | undefined;
+    if (!id) {
+      return Response.json(
+        { errors: [{ message: "A document ID is required." }] },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const doc = await pullAssetMetadata(req.payload, {
+        collection: collection.slug,
+        id,
+        req,
+      });
+      return Response.json({ doc }, { status: 200 });
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error pulling Cloudinary metadata",
+        id,
+      });
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Something went wrong.",
+            },
+          ],
+        },
+        { status: (error as { status?: number })?.status || 500 },
+      );
+    }
+  },
+});
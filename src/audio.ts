@@ -0,0 +1,176 @@
+import type { CloudinaryClient } from "./client";
+import type {
+  CloudinaryAudioOptions,
+  CloudinaryDeliveryType,
+  CloudinaryMetadata,
+} from "./types";
+
+import path from "path";
+import { AUDIO_EXTENSIONS } from "./constants";
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+
+export const DEFAULT_WAVEFORM = {
+  color: "white",
+  background: "black",
+  width: 600,
+  height: 200,
+  format: "png",
+};
+
+type AudioAsset = {
+  public_id: string;
+  version?: number | string;
+  type?: string;
+  duration?: number;
+  bit_rate?: number | string;
+  audio?: {
+    codec?: string;
+    bit_rate?: number | string;
+    frequency?: number | string;
+    channels?: number;
+  };
+};
+
+type AudioDocument = {
+  filename?: string | null;
+  cloudinary?: Partial<CloudinaryMetadata>;
+};
+
+/**
+ * Check if a file is an audio file based on its file extension
+ */
+export const isAudio = (filename: string | null | undefined): boolean =>
+  !!filename && AUDIO_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+
+/**
+ * Check if a document holds an audio file
+ * Cloudinary stores audio as `video` resources, so the format decides
+ */
+export const isAudioDocument = (doc: AudioDocument | undefined): boolean =>
+  !!doc &&
+  (doc.cloudinary?.resource_type || "video") === "video" &&
+  (isAudio(doc.filename) ||
+    (!!doc.cloudinary?.format && isAudio(`.${doc.cloudinary.format}`)));
+
+/**
+ * Resolve the waveform settings, with their defaults
+ */
+const getWaveformSettings = (options: CloudinaryAudioOptions) => {
+  const waveform = options.waveform ?? true;
+  return waveform
+    ? { ...DEFAULT_WAVEFORM, ...(waveform === true ? {} : waveform) }
+    : undefined;
+};
+
+/**
+ * Serialized waveform transformation, e.g.
+ * `fl_waveform,co_white,b_black,w_600,h_200`
+ */
+const getWaveformTransformation = (
+  waveform: NonNullable<ReturnType<typeof getWaveformSettings>>,
+): string =>
+  [
+    "fl_waveform",
+    `co_${waveform.color}`,
+    `b_${waveform.background}`,
+    `w_${waveform.width}`,
+    `h_${waveform.height}`,
+  ].join(",");
+
+/**
+ * Eager transformation for the waveform image
+ * It is generated asynchronously, so uploads don't wait for it
+ */
+export const getAudioEager = (
+  options: CloudinaryAudioOptions = {},
+): { raw_transformation: string; format: string }[] => {
+  const waveform = getWaveformSettings(options);
+  return waveform
+    ? [
+        {
+          raw_transformation: getWaveformTransformation(waveform),
+          format: waveform.format,
+        },
+      ]
+    : [];
+};
+
+/**
+ * Delivery URL of an audio file in another format, e.g. `mp3` or `ogg`
+ * Cloudinary transcodes on the fly; authenticated and private files get
+ * signed URLs
+ */
+export const getAudioURL = (
+  cloudinary: CloudinaryClient,
+  asset: Pick<AudioAsset, "public_id" | "version" | "type">,
+  format: string,
+  transformation?: string,
+  expiresIn?: number,
+): string => {
+  const type = (asset.type || "upload") as CloudinaryDeliveryType;
+
+  if (isRestrictedDeliveryType(type)) {
+    return getSignedURL(cloudinary, {
+      public_id: asset.public_id,
+      format,
+      resource_type: "video",
+      type,
+      version: asset.version,
+      transformation,
+      expiresIn,
+    });
+  }
+
+  const transformationSegment = transformation ? `/${transformation}` : "";
+  const versionSegment = asset.version ? `/v${asset.version}` : "";
+  return `https://res.cloudinary.com/${cloudinary.cloudName}/video/upload${transformationSegment}${versionSegment}/${asset.public_id}.${format}`;
+};
+
+/**
+ * URL of the waveform image of an audio file
+ */
+export const getWaveformURL = (
+  cloudinary: CloudinaryClient,
+  asset: Pick<AudioAsset, "public_id" | "version" | "type">,
+  options: CloudinaryAudioOptions = {},
+): string | undefined => {
+  const waveform = getWaveformSettings(options);
+  return waveform
+    ? getAudioURL(
+        cloudinary,
+        asset,
+        waveform.format,
+        getWaveformTransformation(waveform),
+      )
+    : undefined;
+};
+
+const toNumber = (value: number | string | undefined): number | undefined => {
+  const number = Number(value);
+  return value !== undefined && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Duration, bit rate, channels, codec and waveform URL of an audio file,
+ * from an upload result or an Admin API resource
+ */
+export const getAudioMetadata = (
+  cloudinary: CloudinaryClient,
+  asset: AudioAsset,
+  options: CloudinaryAudioOptions = {},
+): Pick<
+  CloudinaryMetadata,
+  | "duration"
+  | "bit_rate"
+  | "channels"
+  | "audio_codec"
+  | "sample_rate"
+  | "waveform_url"
+> => ({
+  duration: asset.duration,
+  bit_rate: toNumber(asset.bit_rate ?? asset.audio?.bit_rate),
+  channels: asset.audio?.channels,
+  audio_codec: asset.audio?.codec,
+  sample_rate: toNumber(asset.audio?.frequency),
+  waveform_url: getWaveformURL(cloudinary, asset, options),
+});
@@ -0,0 +1,264 @@
+import type {
+  CollectionConfig,
+  Endpoint,
+  Field,
+  PayloadRequest,
+} from "payload";
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryAutoTaggingOptions, CloudinaryMetadata } from "./types";
+
+import { getStoredAssetMetadata } from "./assetMetadata";
+
+export const DEFAULT_CATEGORIZATION = "google_tagging";
+export const DEFAULT_DETECTION = "captioning";
+export const DEFAULT_AUTO_TAGGING_THRESHOLD = 0.6;
+export const DEFAULT_ALT_FIELD = "alt";
+
+type AddOnResult = { status?: string; data?: unknown };
+
+type Label = { label: string; confidence: number };
+
+const toList = (value: string | string[] | undefined, fallback: string) =>
+  (Array.isArray(value) ? value : [value ?? fallback]).filter(Boolean);
+
+/**
+ * Add-on parameters of uploads and Admin API updates
+ */
+export const getAutoTaggingParams = (
+  options: CloudinaryAutoTaggingOptions,
+): { categorization?: string; detection?: string; auto_tagging?: number } => {
+  const categorization = toList(options.categorization, DEFAULT_CATEGORIZATION);
+  const detection = toList(options.detection, DEFAULT_DETECTION);
+  const threshold = options.threshold ?? DEFAULT_AUTO_TAGGING_THRESHOLD;
+
+  return {
+    ...(categorization.length > 0 && {
+      categorization: categorization.join(","),
+      // Tags are taken from categorization results only
+      ...(threshold !== false && { auto_tagging: threshold }),
+    }),
+    ...(detection.length > 0 && { detection: detection.join(",") }),
+  };
+};
+
+/**
+ * Labels of a categorization result
+ * Imagga translates its labels, English is used
+ */
+const getCategorizationLabels = (result: AddOnResult): Label[] =>
+  Array.isArray(result.data)
+    ? result.data
+        .map((entry: { tag?: unknown; confidence?: number }) => ({
+          label:
+            typeof entry?.tag === "string"
+              ? entry.tag
+              : (entry?.tag as { en?: string } | undefined)?.en || "",
+          confidence: entry?.confidence ?? 0,
+        }))
+        .filter(({ label }) => label)
+    : [];
+
+/**
+ * Labels of an object detection result, by detected object
+ */
+const getObjectDetectionLabels = (result: AddOnResult): Label[] =>
+  Object.values((result.data || {}) as Record<string, { tags?: object }>)
+    .flatMap((model) => Object.entries(model?.tags || {}))
+    .map(([label, instances]) => ({
+      label,
+      confidence: Math.max(
+        0,
+        ...(Array.isArray(instances)
+          ? instances.map(
+              (instance: { confidence?: number }) => instance?.confidence ?? 0,
+            )
+          : []),
+      ),
+    }));
+
+/**
+ * Labels and suggested caption of the add-on results of an asset
+ * Add-ons still running (or failed) are skipped
+ */
+export const getAutoTaggingMetadata = (
+  info: Record<string, Record<string, unknown>> | undefined,
+): Pick<CloudinaryMetadata, "labels" | "caption"> => {
+  const isComplete = (result: unknown): result is AddOnResult =>
+    (result as AddOnResult | undefined)?.status === "complete";
+
+  const labels: Label[] = [];
+  for (const result of Object.values(info?.categorization || {})) {
+    if (isComplete(result)) labels.push(...getCategorizationLabels(result));
+  }
+  const objectDetection = info?.detection?.object_detection;
+  if (isComplete(objectDetection)) {
+    labels.push(...getObjectDetectionLabels(objectDetection));
+  }
+
+  const captioning = info?.detection?.captioning;
+  const caption = isComplete(captioning)
+    ? (captioning.data as { caption?: string } | undefined)?.caption?.trim()
+    : undefined;
+
+  // Most confident first, each label once
+  const sorted = [
+    ...new Set(
+      labels
+        .sort((a, b) => b.confidence - a.confidence)
+        .map(({ label }) => label),
+    ),
+  ];
+
+  return {
+    ...(sorted.length > 0 && { labels: sorted }),
+    ...(caption && { caption }),
+  };
+};
+
+/**
+ * Alt field data pre-filled with the suggested caption
+ * Empty when editors already wrote alt text
+ */
+export const getAltTextData = (
+  doc: Record<string, unknown>,
+  options: CloudinaryAutoTaggingOptions,
+  caption: string | undefined,
+): Record<string, string> => {
+  const altField = options.altField ?? DEFAULT_ALT_FIELD;
+  if (!altField || !caption) return {};
+
+  const current = doc[altField];
+  return typeof current === "string" && current.trim()
+    ? {}
+    : { [altField]: caption };
+};
+
+/**
+ * Check if the current user may re-run the analysis
+ * Defaults to any authenticated user
+ */
+const canAutoTag = async (
+  options: CloudinaryAutoTaggingOptions,
+  collection: CollectionConfig,
+  req: PayloadRequest,
+): Promise<boolean> => {
+  if (options.access) {
+    return options.access({ collectionSlug: collection.slug, req });
+  }
+  return !!req.user;
+};
+
+interface EndpointArgs {
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
+  options: CloudinaryAutoTaggingOptions;
+}
+
+/**
+ * Endpoint that runs the add-ons again on an existing image
+ *
+ * `POST /:collection/:id/cloudinary-auto-tag`
+ */
+export const getAutoTaggingEndpoint = ({
+  cloudinary,
+  collection,
+  options,
+}: EndpointArgs): Endpoint => ({
+  path: "/:id/cloudinary-auto-tag",
+  method: "post",
+  handler: async (req) => {
+    if (!(await canAutoTag(options, collection, req))) {
+      return Response.json(
+        {
+          errors: [{ message: "You are not allowed to perform this action." }],
+        },
+        { status: 403 },
+      );
+    }
+
+    const id = req.routeParams?.id as string | undefined;
+    if (!id) {
+      return Response.json(
+        { errors: [{ message: "A document ID is required." }] },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const doc = await req.payload.findByID({
+        collection: collection.slug,
+        id,
+        depth: 0,
+        overrideAccess: false,
+        req,
+      });
+
+      const metadata = doc.cloudinary as CloudinaryMetadata | undefined;
+      if (!metadata?.public_id || metadata.resource_type !== "image") {
+        return Response.json(
+          { errors: [{ message: "Only images can be analyzed." }] },
+          { status: 400 },
+        );
+      }
+
+      const result = await cloudinary.update(metadata.public_id, {
+        resource_type: "image",
+        type: metadata.type || "upload",
+        ...getAutoTaggingParams(options),
+      });
+
+      const analysis = getAutoTaggingMetadata(result.info);
+      const updated = await req.payload.update({
+        collection: collection.slug,
+        id,
+        data: {
+          cloudinary: {
+            ...metadata,
+            ...getStoredAssetMetadata(result),
+            labels: analysis.labels || [],
+            caption: analysis.caption,
+          },
+          ...getAltTextData(doc, options, analysis.caption),
+        },
+        overrideAccess: false,
+        req,
+      });
+
+      return Response.json({ doc: updated }, { status: 200 });
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error analyzing Cloudinary asset",
+        id,
+      });
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Something went wrong.",
+            },
+          ],
+        },
+        { status: (error as { status?: number })?.status || 500 },
+      );
+    }
+  },
+});
+
+/**
+ * Sidebar button re-running the analysis of an image
+ */
+export const getAutoTaggingField = (): Field => ({
+  name: "cloudinaryAutoTagging",
+  type: "ui",
+  admin: {
+    position: "sidebar",
+    condition: (data) => data?.cloudinary?.resource_type === "image",
+    components: {
+      Field: "payload-cloudinary/client#AutoTagButton",
+    },
+  },
+});
@@ -0,0 +1,352 @@
+import type {
+  AdminApiOptions,
+  UploadApiOptions,
+  UploadApiResponse,
+} from "cloudinary";
+import type { CloudinaryConfig } from "./types";
+
+import { v2 as cloudinarySDK } from "cloudinary";
+import stream from "stream";
+
+export type CloudinaryResourceOptions = {
+  resource_type?: string;
+  type?: string;
+};
+
+export type CloudinaryResource = {
+  public_id: string;
+  asset_id?: string;
+  resource_type: string;
+  type?: string;
+  format?: string;
+  version?: number;
+  secure_url: string;
+  bytes?: number;
+  created_at?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  pages?: number;
+  /**
+   * Audio files are `video` resources without a visual track
+   */
+  is_audio?: boolean;
+  bit_rate?: number | string;
+  audio?: {
+    codec?: string;
+    bit_rate?: number | string;
+    frequency?: number | string;
+    channels?: number;
+  };
+  tags?: string[];
+  /**
+   * Contextual metadata, under `custom`
+   */
+  context?: { custom?: Record<string, string> };
+  /**
+   * Structured metadata, by external ID
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * Results of analysis add-ons, by kind (`categorization`, `detection`)
+   */
+  info?: Record<string, Record<string, unknown>>;
+};
+
+export type CloudinaryRestoreResult = Record<
+  string,
+  | (Partial<CloudinaryResource> & {
+      version_id?: string;
+      error?: { message?: string };
+    })
+  | undefined
+>;
+
+export type CloudinarySearchPage = {
+  resources: CloudinaryResource[];
+  next_cursor?: string;
+};
+
+export type CloudinaryUpdateOptions = CloudinaryResourceOptions & {
+  moderation_status?: "approved" | "rejected";
+  /**
+   * Replaces every tag of the asset
+   */
+  tags?: string[];
+  /**
+   * Replaces the contextual metadata of the asset
+   */
+  context?: Record<string, string>;
+  /**
+   * Structured metadata fields to set; empty strings clear them
+   */
+  metadata?: Record<string, string | string[]>;
+  /**
+   * Analysis add-ons to run again
+   */
+  categorization?: string;
+  detection?: string;
+  auto_tagging?: number;
+  /**
+   * Media Library folder of the asset (dynamic folder mode)
+   */
+  asset_folder?: string;
+};
+
+export type CloudinarySignedURLOptions = CloudinaryResourceOptions & {
+  format?: string;
+  version?: string | number;
+  /**
+   * Serialized transformation segment
+   */
+  transformation?: string;
+};
+
+export type CloudinaryDownloadURLOptions = CloudinaryResourceOptions & {
+  /**
+   * Unix timestamp the URL expires at
+   */
+  expires_at?: number;
+};
+
+/**
+ * The Cloudinary operations the plugin relies on
+ *
+ * The default client wraps the Cloudinary SDK; pass another implementation
+ * (e.g. the in-memory fake from `payload-cloudinary/testing`) through the
+ * `client` option to run the plugin without a Cloudinary account
+ */
+export interface CloudinaryClient {
+  /**
+   * Cloud name used in delivery URLs
+   */
+  readonly cloudName: string;
+
+  /**
+   * Upload a file
+   */
+  upload(file: Buffer, options: UploadApiOptions): Promise<UploadApiResponse>;
+
+  /**
+   * Get the details of an asset (Admin API)
+   */
+  resource(
+    publicId: string,
+    options: CloudinaryResourceOptions & { pages?: boolean },
+  ): Promise<CloudinaryResource>;
+
+  /**
+   * Delete an asset
+   */
+  destroy(
+    publicId: string,
+    options: CloudinaryResourceOptions & { invalidate?: boolean },
+  ): Promise<{ result: string }>;
+
+  /**
+   * Change the public ID of an asset
+   */
+  rename(
+    fromPublicId: string,
+    toPublicId: string,
+    options: CloudinaryResourceOptions & {
+      /**
+       * Delivery type to switch the asset to, e.g. `private`
+       */
+      to_type?: string;
+      overwrite?: boolean;
+      invalidate?: boolean;
+    },
+  ): Promise<CloudinaryResource>;
+
+  /**
+   * Delete the derivatives of assets for a transformation (Admin API)
+   */
+  deleteDerived(
+    publicIds: string[],
+    transformation: string,
+    options: CloudinaryResourceOptions & { invalidate?: boolean },
+  ): Promise<unknown>;
+
+  /**
+   * Update an asset (Admin API)
+   */
+  update(
+    publicId: string,
+    options: CloudinaryUpdateOptions,
+  ): Promise<CloudinaryResource & { moderation_status?: string }>;
+
+  /**
+   * Restore backed up versions of assets (Admin API)
+   */
+  restore(
+    publicIds: string[],
+    options: CloudinaryResourceOptions & { versions?: string[] },
+  ): Promise<CloudinaryRestoreResult>;
+
+  /**
+   * Get a page of assets matching a Search API expression
+   */
+  search(
+    expression: string,
+    options: { maxResults: number; nextCursor?: string },
+  ): Promise<CloudinarySearchPage>;
+
+  /**
+   * Signed delivery URL of a transformed asset
+   */
+  signedURL(publicId: string, options: CloudinarySignedURLOptions): string;
+
+  /**
+   * Expiring download URL of an original asset
+   */
+  privateDownloadURL(
+    publicId: string,
+    format: string,
+    options: CloudinaryDownloadURLOptions,
+  ): string;
+
+  /**
+   * Signed download URL of a backed up version
+   */
+  backedUpAssetURL(assetId: string, versionId: string): string;
+
+  /**
+   * Upload API params the SDK would send for the upload options
+   */
+  buildUploadParams(options: UploadApiOptions): Record<string, unknown>;
+
+  /**
+   * Sign API params (uploads, upload responses) with the API secret
+   */
+  signRequest(params: Record<string, unknown>): string;
+
+  /**
+   * Fetch a delivery URL
+   */
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+// Upload params the SDK turns into signed API params
+type UploadParamsBuilder = {
+  build_upload_params: (options: UploadApiOptions) => Record<string, unknown>;
+};
+
+// The SDK passes execute options (credentials) on to the Admin API
+type SearchQuery = {
+  execute: (options: object) => Promise<CloudinarySearchPage>;
+};
+
+/**
+ * Cloudinary client backed by the Cloudinary SDK
+ * Credentials are passed with every call, so clients for different
+ * accounts don't share the SDK's global configuration
+ */
+export const createCloudinaryClient = (
+  config: CloudinaryConfig,
+): CloudinaryClient => {
+  const credentials = {
+    cloud_name: config.cloud_name,
+    api_key: config.api_key,
+    api_secret: config.api_secret,
+  };
+
+  return {
+    cloudName: config.cloud_name,
+
+    upload: (file, options) =>
+      new Promise((resolve, reject) => {
+        const uploadStream = cloudinarySDK.uploader.upload_stream(
+          { ...options, ...credentials },
+          (error, result) => {
+            if (error || !result) {
+              reject(error || new Error("Empty Cloudinary upload response"));
+              return;
+            }
+            resolve(result);
+          },
+        );
+
+        // Create readable stream from buffer
+        const readableStream = new stream.Readable();
+        readableStream.push(file);
+        readableStream.push(null);
+        readableStream.pipe(uploadStream);
+      }),
+
+    resource: (publicId, options) =>
+      cloudinarySDK.api.resource(publicId, { ...options, ...credentials }),
+
+    destroy: (publicId, options) =>
+      cloudinarySDK.uploader.destroy(publicId, { ...options, ...credentials }),
+
+    rename: (fromPublicId, toPublicId, options) =>
+      cloudinarySDK.uploader.rename(fromPublicId, toPublicId, {
+        ...options,
+        ...credentials,
+      } as Parameters<CloudinaryClient["rename"]>[2]),
+
+    deleteDerived: (publicIds, transformation, options) =>
+      cloudinarySDK.api.delete_derived_by_transformation(
+        publicIds,
+        transformation,
+        { ...options, ...credentials },
+      ),
+
+    update: (publicId, options) =>
+      cloudinarySDK.api.update(publicId, { ...options, ...credentials }),
+
+    restore: (publicIds, options) =>
+      cloudinarySDK.api.restore(publicIds, {
+        ...options,
+        ...credentials,
+      } as AdminApiOptions),
+
+    search: async (expression, { maxResults, nextCursor }) => {
+      let query = cloudinarySDK.search
+        .expression(expression)
+        .sort_by("public_id", "asc")
+        .max_results(maxResults);
+      if (nextCursor) query = query.next_cursor(nextCursor);
+
+      const page = await (query as unknown as SearchQuery).execute(credentials);
+      return { resources: page.resources || [], next_cursor: page.next_cursor };
+    },
+
+    signedURL: (publicId, { transformation, ...options }) =>
+      cloudinarySDK.url(publicId, {
+        ...options,
+        ...credentials,
+        raw_transformation: transformation,
+        sign_url: true,
+        secure: true,
+      }),
+
+    privateDownloadURL: (publicId, format, options) =>
+      cloudinarySDK.utils.private_download_url(publicId, format, {
+        ...options,
+        ...credentials,
+        resource_type: options.resource_type as "image" | "video" | "raw",
+      }),
+
+    backedUpAssetURL: (assetId, versionId) =>
+      cloudinarySDK.utils.download_backedup_asset(
+        assetId,
+        versionId,
+        credentials,
+      ),
+
+    buildUploadParams: (options) =>
+      (
+        cloudinarySDK.utils as unknown as UploadParamsBuilder
+      ).build_upload_params(options),
+
+    signRequest: (params) =>
+      cloudinarySDK.utils.api_sign_request(
+        params as Parameters<typeof cloudinarySDK.utils.api_sign_request>[0],
+        config.api_secret,
+      ),
+
+    fetch: (url, init) => fetch(url, init),
+  };
+};
@@ -0,0 +1,466 @@
+import type {
+  CollectionConfig,
+  Endpoint,
+  JsonObject,
+  PayloadRequest,
+} from "payload";
+import type { CloudinaryClient, CloudinaryResource } from "./client";
+import type {
+  CloudinaryAudioOptions,
+  CloudinaryClientUploadsOptions,
+  CloudinaryConfig,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryImageSizesOptions,
+  CloudinaryResourceTypeMapping,
+  CloudinaryUploadDefaults,
+  CloudinaryUploadLimits,
+  CloudinaryModerationOptions,
+  CloudinaryAutoTaggingOptions,
+  CloudinaryVersioningOptions,
+  CloudinaryVideoOptions,
+  PublicIDOptions,
+} from "./types";
+
+import crypto from "crypto";
+import path from "path";
+import { ValidationError } from "payload";
+import { applyUploadResult, getUploadParams } from "./handleUpload";
+import type { UploadResult } from "./handleUpload";
+import { getImageSizes } from "./imageSizes";
+import { EXISTING_ASSET_CONTEXT } from "./collections/Media/hooks";
+import { getResourceType, isRecord, readJSONBody } from "./utils";
+import {
+  getFileFacts,
+  getLimitErrors,
+  getMetadataFacts,
+  hasLimits,
+  rollbackUpload,
+} from "./limits";
+
+interface Args {
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
+  config: CloudinaryConfig;
+  folder: string;
+  prefix?: string;
+  versioning?: CloudinaryVersioningOptions;
+  publicID?: PublicIDOptions;
+  imageSizes?: CloudinaryImageSizesOptions;
+  deliveryType?: CloudinaryDeliveryType;
+  notificationURL?: string;
+  uploadDefaults?: CloudinaryUploadDefaults;
+  focalPoint?: CloudinaryFocalPointOptions;
+  video?: CloudinaryVideoOptions;
+  audio?: CloudinaryAudioOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  limits?: CloudinaryUploadLimits;
+  moderation?: CloudinaryModerationOptions;
+  autoTagging?: CloudinaryAutoTaggingOptions;
+  options: CloudinaryClientUploadsOptions;
+}
+
+const RESOURCE_TYPES = ["image", "video", "raw"];
+
+const errorResponse = (message: string, status: number): Response =>
+  Response.json({ errors: [{ message }] }, { status });
+
+/**
+ * Field-level errors, in the shape of Payload's REST API
+ */
+const validationErrorResponse = (error: ValidationError): Response =>
+  Response.json(
+    {
+      errors: [{ name: error.name, message: error.message, data: error.data }],
+    },
+    { status: error.status },
+  );
+
+/**
+ * Check that a document prefix keeps the asset inside the collection's folder
+ */
+const isValidPrefix = (prefix: unknown): prefix is string | null | undefined =>
+  prefix === undefined ||
+  prefix === null ||
+  (typeof prefix === "string" &&
+    !path.posix.isAbsolute(prefix) &&
+    !prefix.split("/").some((segment) => segment === ".." || segment === "."));
+
+/**
+ * Compare signatures in constant time
+ */
+const isSameSignature = (expected: string, signature: string): boolean => {
+  const encoder = new TextEncoder();
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(encoder.encode(expected), encoder.encode(signature))
+  );
+};
+
+/**
+ * Check if the current user may upload directly to Cloudinary
+ * Defaults to any authenticated user
+ */
+const canUpload = async (
+  options: CloudinaryClientUploadsOptions,
+  collection: CollectionConfig,
+  req: PayloadRequest,
+): Promise<boolean> => {
+  if (options.access) {
+    return options.access({ collectionSlug: collection.slug, req });
+  }
+  return !!req.user;
+};
+
+/**
+ * Endpoints for direct browser-to-Cloudinary uploads
+ *
+ * - `POST /:collection/cloudinary-upload/sign` returns signed upload params
+ * - `POST /:collection/cloudinary-upload/finalize` verifies the Cloudinary
+ *   response and creates (or updates) the document
+ */
+export const getClientUploadEndpoints = ({
+  cloudinary,
+  collection,
+  config,
+  folder,
+  prefix = "",
+  versioning,
+  publicID,
+  imageSizes: imageSizesOptions,
+  deliveryType = "upload",
+  notificationURL,
+  uploadDefaults,
+  focalPoint,
+  video,
+  audio,
+  resourceTypes,
+  limits,
+  moderation,
+  autoTagging,
+  options,
+}: Args): Endpoint[] => {
+  const imageSizes =
+    imageSizesOptions?.enabled !== false ? getImageSizes(collection) : [];
+
+  // Checked regardless of the user's access, as documents they can't read
+  // still own their asset
+  const isReferenced = async (
+    req: PayloadRequest,
+    publicId: string,
+  ): Promise<boolean> => {
+    const { totalDocs } = await req.payload.count({
+      collection: collection.slug,
+      where: { "cloudinary.public_id": { equals: publicId } },
+      req,
+    });
+    return totalDocs > 0;
+  };
+
+  const sign: Endpoint = {
+    path: "/cloudinary-upload/sign",
+    method: "post",
+    handler: async (req) => {
+      if (!(await canUpload(options, collection, req))) {
+        return errorResponse(
+          "You are not allowed to perform this action.",
+          403,
+        );
+      }
+
+      const body = await readJSONBody(req);
+      if (
+        !isRecord(body) ||
+        typeof body.filename !== "string" ||
+        !body.filename
+      ) {
+        return errorResponse("A filename is required.", 400);
+      }
+      if (!isValidPrefix(body.prefix)) {
+        return errorResponse("Invalid prefix.", 400);
+      }
+
+      // Reject files known to violate the limits before they are uploaded
+      if (hasLimits(limits)) {
+        const errors = getLimitErrors(
+          getFileFacts(
+            {
+              filename: body.filename,
+              filesize:
+                typeof body.filesize === "number" ? body.filesize : undefined,
+            },
+            {},
+          ),
+          limits,
+        );
+        if (errors.length > 0) {
+          return validationErrorResponse(
+            new ValidationError({ collection: collection.slug, errors }),
+          );
+        }
+      }
+
+      const { uploadOptions } = getUploadParams({
+        filename: body.filename,
+        data: { prefix: body.prefix },
+        folder,
+        prefix,
+        versioning,
+        publicID,
+        imageSizes,
+        imageSizesOptions,
+        deliveryType,
+        notificationURL,
+        uploadDefaults,
+        focalPoint,
+        video,
+        audio,
+        resourceTypes,
+        moderation,
+        autoTagging,
+        mimeType: typeof body.mimeType === "string" ? body.mimeType : undefined,
+      });
+
+      const ext = path.extname(body.filename).toLowerCase();
+      const resourceType = uploadOptions.resource_type || getResourceType(ext);
+
+      // Sign exactly the params the browser will send
+      const uploadParams: Record<string, unknown> = {
+        ...cloudinary.buildUploadParams(uploadOptions),
+        timestamp: Math.floor(Date.now() / 1000),
+      };
+      const params = Object.fromEntries(
+        Object.entries(uploadParams).filter(
+          ([, value]) => value !== undefined && value !== null && value !== "",
+        ),
+      );
+      const signature = cloudinary.signRequest(params);
+
+      return Response.json({
+        upload_url: `https://api.cloudinary.com/v1_1/${config.cloud_name}/${resourceType}/upload`,
+        cloud_name: config.cloud_name,
+        api_key: config.api_key,
+        resource_type: resourceType,
+        chunk_size: uploadOptions.chunk_size,
+        params: { ...params, signature, api_key: config.api_key },
+      });
+    },
+  };
+
+  const finalize: Endpoint = {
+    path: "/cloudinary-upload/finalize",
+    method: "post",
+    handler: async (req) => {
+      if (!(await canUpload(options, collection, req))) {
+        return errorResponse(
+          "You are not allowed to perform this action.",
+          403,
+        );
+      }
+
+      const body = await readJSONBody(req);
+      if (!isRecord(body) || !isRecord(body.result)) {
+        return errorResponse("A Cloudinary upload response is required.", 400);
+      }
+      const result = body.result;
+      if (
+        typeof result.public_id !== "string" ||
+        !result.public_id ||
+        (typeof result.version !== "number" &&
+          typeof result.version !== "string") ||
+        typeof result.signature !== "string"
+      ) {
+        return errorResponse("A Cloudinary upload response is required.", 400);
+      }
+      if (!isValidPrefix(body.prefix)) {
+        return errorResponse("Invalid prefix.", 400);
+      }
+
+      // Cloudinary signs `public_id` and `version` of every upload response
+      const expectedSignature = cloudinary.signRequest({
+        public_id: result.public_id,
+        version: result.version,
+      });
+      if (!isSameSignature(expectedSignature, result.signature)) {
+        return errorResponse("Invalid Cloudinary response signature.", 400);
+      }
+
+      // Only accept assets uploaded into this collection's folder
+      if (!result.public_id.startsWith(`${folder}/`)) {
+        return errorResponse(
+          "The uploaded asset is outside of the configured folder.",
+          400,
+        );
+      }
+
+      if (
+        typeof result.resource_type !== "string" ||
+        !RESOURCE_TYPES.includes(result.resource_type)
+      ) {
+        return errorResponse("Invalid Cloudinary resource type.", 400);
+      }
+
+      // Only `public_id` and `version` are signed, so URLs, sizes and
+      // durations are read from Cloudinary instead of the posted response
+      let uploaded: CloudinaryResource;
+      try {
+        uploaded = await cloudinary.resource(result.public_id, {
+          resource_type: result.resource_type,
+          type: deliveryType,
+          pages: true,
+        });
+      } catch (error) {
+        return errorResponse("The uploaded asset could not be found.", 400);
+      }
+      if (String(uploaded.version) !== String(result.version)) {
+        return errorResponse(
+          "The Cloudinary response doesn't match the uploaded asset.",
+          400,
+        );
+      }
+      const verified: UploadResult = {
+        ...uploaded,
+        format: uploaded.format || "",
+        type: uploaded.type || deliveryType,
+        // Only ever sent back to Cloudinary to restore this asset's backups
+        ...(typeof result.version_id === "string" && {
+          version_id: result.version_id,
+        }),
+        // The browser could claim any outcome, so uploads start out pending
+        ...(moderation && { moderation: [] }),
+      };
+
+      // A response can be posted again, but its asset belongs to one document
+      if (await isReferenced(req, verified.public_id)) {
+        return errorResponse(
+          "The uploaded asset already belongs to a document.",
+          409,
+        );
+      }
+
+      const filename =
+        typeof body.filename === "string" && body.filename
+          ? body.filename
+          : `${result.original_filename}.${verified.format}`;
+
+      try {
+        // Replacing the file of an existing document
+        const existing =
+          typeof body.id === "string" || typeof body.id === "number"
+            ? await req.payload.findByID({
+                collection: collection.slug,
+                id: body.id,
+                depth: 0,
+                overrideAccess: false,
+                req,
+              })
+            : undefined;
+
+        const data: JsonObject = {
+          ...(isRecord(body.data) && body.data),
+          filename,
+          ...(typeof body.mimeType === "string" && { mimeType: body.mimeType }),
+          filesize: verified.bytes,
+          ...(verified.width && { width: verified.width }),
+          ...(verified.height && { height: verified.height }),
+          ...(body.prefix && { prefix: body.prefix }),
+          // Keep the version history of the document being replaced
+          ...(Array.isArray(existing?.versions) && {
+            versions: [...existing.versions],
+          }),
+        };
+
+        await applyUploadResult({
+          cloudinary,
+          data,
+          filename,
+          result: verified,
+          imageSizes,
+          // Eager derivatives are only listed in the posted response
+          isEagerSizes: false,
+          eagerSizesOffset: 0,
+          versioning,
+          focalPoint,
+          video,
+          audio,
+          moderation,
+          autoTagging,
+        });
+
+        // Durations, page counts and dimensions are checked on the response
+        if (hasLimits(limits)) {
+          const errors = getLimitErrors(
+            getMetadataFacts(data.cloudinary),
+            limits,
+          );
+          if (errors.length > 0) {
+            throw new ValidationError({ collection: collection.slug, errors });
+          }
+        }
+
+        if (existing) {
+          const doc = await req.payload.update({
+            collection: collection.slug,
+            id: existing.id,
+            data,
+            overrideAccess: false,
+            req,
+          });
+
+          // The previous asset is no longer referenced by the document
+          const previous = existing.cloudinary as
+            | { public_id?: string; resource_type?: string; type?: string }
+            | undefined;
+          if (
+            previous?.public_id &&
+            previous.public_id !== verified.public_id
+          ) {
+            await cloudinary.destroy(previous.public_id, {
+              resource_type: previous.resource_type || "image",
+              type: previous.type || "upload",
+              invalidate: true,
+            });
+          }
+
+          return Response.json({ doc }, { status: 200 });
+        }
+
+        const doc = await req.payload.create({
+          collection: collection.slug,
+          data,
+          context: { [EXISTING_ASSET_CONTEXT]: true },
+          overrideAccess: false,
+          req,
+        });
+
+        return Response.json({ doc }, { status: 201 });
+      } catch (error) {
+        req.payload.logger.error({
+          error,
+          message: "Error finalizing Cloudinary client upload",
+          public_id: result.public_id,
+        });
+
+        // Don't leave an asset behind that no document points to
+        const isOrphaned = await isReferenced(req, verified.public_id).then(
+          (referenced) => !referenced,
+          () => false,
+        );
+        if (isOrphaned) {
+          await rollbackUpload(req, cloudinary, verified);
+        }
+
+        if (error instanceof ValidationError) {
+          return validationErrorResponse(error);
+        }
+
+        return errorResponse(
+          error instanceof Error ? error.message : "Something went wrong.",
+          (error as { status?: number })?.status || 500,
+        );
+      }
+    },
+  };
+
+  return [sign, finalize];
+};
@@ -1,4 +1,15 @@
-import type { Field } from "payload";
+import type { Field, FieldAccess } from "payload";
+
+// Fields handing out delivery URLs of the asset
+const URL_FIELDS = [
+  "secure_url",
+  "thumbnail_url",
+  "streaming_url",
+  "dash_url",
+  "poster_url",
+  "waveform_url",
+  "eager",
+];
 
 export const cloudinaryFields: Field[] = [
   {
@@ -18,6 +29,15 @@ export const cloudinaryFields: Field[] = [
           readOnly: true,
         },
       },
+      {
+        name: "asset_id",
+        type: "text",
+        label: "Asset ID",
+        admin: {
+          description: "Cloudinary Asset ID (stays the same across versions)",
+          readOnly: true,
+        },
+      },
       {
         name: "resource_type",
         type: "text",
@@ -27,6 +47,15 @@ export const cloudinaryFields: Field[] = [
           readOnly: true,
         },
       },
+      {
+        name: "type",
+        type: "text",
+        label: "Delivery Type",
+        admin: {
+          description: "Delivery type (upload, authenticated, private)",
+          readOnly: true,
+        },
+      },
       {
         name: "format",
         type: "text",
@@ -108,7 +137,7 @@ export const cloudinaryFields: Field[] = [
         type: "number",
         label: "Duration",
         admin: {
-          description: "Duration in seconds (for videos)",
+          description: "Duration in seconds (for audio and videos)",
           readOnly: true,
           condition: (data) => data?.resource_type === "video",
         },
@@ -146,6 +175,183 @@ export const cloudinaryFields: Field[] = [
           condition: (data) => data?.format === "pdf",
         },
       },
+      {
+        name: "streaming_url",
+        type: "text",
+        label: "Streaming URL",
+        admin: {
+          description: "HLS adaptive streaming manifest",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.streaming_url,
+        },
+      },
+      {
+        name: "dash_url",
+        type: "text",
+        label: "DASH URL",
+        admin: {
+          description: "MPEG-DASH adaptive streaming manifest",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.dash_url,
+        },
+      },
+      {
+        name: "poster_url",
+        type: "text",
+        label: "Poster URL",
+        admin: {
+          description: "Poster frame of the video",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.poster_url,
+        },
+      },
+      {
+        name: "bit_rate",
+        type: "number",
+        label: "Bit Rate",
+        admin: {
+          description: "Bit rate in bits per second (for audio)",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.bit_rate,
+        },
+      },
+      {
+        name: "channels",
+        type: "number",
+        label: "Channels",
+        admin: {
+          description: "Number of audio channels",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.channels,
+        },
+      },
+      {
+        name: "audio_codec",
+        type: "text",
+        label: "Audio Codec",
+        admin: {
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.audio_codec,
+        },
+      },
+      {
+        name: "sample_rate",
+        type: "number",
+        label: "Sample Rate",
+        admin: {
+          description: "Sample rate in Hz (for audio)",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.sample_rate,
+        },
+      },
+      {
+        name: "waveform_url",
+        type: "text",
+        label: "Waveform URL",
+        admin: {
+          description: "Waveform image of the audio file",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.waveform_url,
+        },
+      },
+      {
+        name: "eager",
+        type: "json",
+        label: "Eager Derivatives",
+        admin: {
+          description: "Derivatives generated during upload",
+          readOnly: true,
+        },
+      },
+      {
+        name: "moderation_status",
+        type: "text",
+        label: "Moderation Status",
+        admin: {
+          description: "Moderation status reported by Cloudinary",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.moderation_status,
+        },
+      },
+      {
+        name: "tags",
+        type: "text",
+        hasMany: true,
+        label: "Tags",
+        admin: {
+          description: "Tags of the asset in Cloudinary",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.tags?.length,
+        },
+      },
+      {
+        name: "context",
+        type: "json",
+        label: "Context",
+        admin: {
+          description: "Contextual metadata of the asset in Cloudinary",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.context,
+        },
+      },
+      {
+        name: "metadata",
+        type: "json",
+        label: "Structured Metadata",
+        admin: {
+          description: "Structured metadata of the asset in Cloudinary",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.metadata,
+        },
+      },
+      {
+        name: "labels",
+        type: "text",
+        hasMany: true,
+        label: "Labels",
+        admin: {
+          description: "Labels detected by Cloudinary add-ons",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.labels?.length,
+        },
+      },
+      {
+        name: "caption",
+        type: "text",
+        label: "Suggested Caption",
+        admin: {
+          description: "Caption suggested by Cloudinary, for the alt text",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.caption,
+        },
+      },
+      {
+        name: "deleted_at",
+        type: "text",
+        label: "Deleted At",
+        admin: {
+          description: "When the asset was deleted outside of Payload",
+          readOnly: true,
+          condition: (_, siblingData) => !!siblingData?.deleted_at,
+        },
+      },
     ],
   },
 ];
+
+/**
+ * Cloudinary fields whose delivery URLs are only readable when `read` allows
+ */
+export const withURLReadAccess = (read: FieldAccess): Field[] =>
+  cloudinaryFields.map((field) =>
+    field.type === "group" && "name" in field && field.name === "cloudinary"
+      ? {
+          ...field,
+          fields: field.fields.map((subField) =>
+            "name" in subField && URL_FIELDS.includes(subField.name)
+              ? ({ ...subField, access: { read } } as Field)
+              : subField,
+          ),
+        }
+      : field,
+  );
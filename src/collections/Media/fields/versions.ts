@@ -47,6 +47,15 @@ export const versionFields: Field[] = [
           description: "URL to access this version of the media",
         },
       },
+      {
+        name: "restore",
+        type: "ui",
+        admin: {
+          components: {
+            Field: "payload-cloudinary/client#RestoreVersionButton",
+          },
+        },
+      },
     ],
   },
 ];
@@ -0,0 +1,36 @@
+import type { CollectionBeforeChangeHook } from "payload";
+import type { CloudinaryUploadLimits } from "../../../types";
+
+import { ValidationError } from "payload";
+import { getFileFacts, getLimitErrors } from "../../../limits";
+
+/**
+ * This hook rejects files known to violate the limits before anything
+ * happens in Cloudinary, so a rejected replacement leaves the previous
+ * asset in place. It runs before the cloud storage plugin's hook, which
+ * deletes the old files and uploads the new one
+ */
+export const getCheckLimits =
+  (limits: CloudinaryUploadLimits): CollectionBeforeChangeHook =>
+  ({ collection, data, req }) => {
+    if (!req.file) {
+      return data;
+    }
+
+    const errors = getLimitErrors(
+      getFileFacts(
+        {
+          filename: req.file.name,
+          filesize: req.file.size,
+          buffer: req.file.data,
+        },
+        data,
+      ),
+      limits,
+    );
+    if (errors.length > 0) {
+      throw new ValidationError({ collection: collection.slug, errors });
+    }
+
+    return data;
+  };
@@ -1 +1,11 @@
 export { beforeRead } from "./change-url";
+export {
+  getDeferredDelete,
+  getReplacedAsset,
+  isReplacedAsset,
+  getReplaceVersion,
+  replaceVersion,
+} from "./replace-version";
+export { getRenameAssetHooks } from "./rename-asset";
+export { EXISTING_ASSET_CONTEXT, requireFile } from "./require-file";
+export { getCheckLimits } from "./check-limits";
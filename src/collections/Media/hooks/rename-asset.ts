@@ -0,0 +1,260 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterErrorHook,
+  CollectionBeforeChangeHook,
+  PayloadRequest,
+} from "payload";
+import type { CloudinaryClient } from "../../../client";
+import type {
+  CloudinaryMetadata,
+  CloudinaryRenameOptions,
+  PublicIDOptions,
+} from "../../../types";
+
+import path from "path";
+import { ValidationError } from "payload";
+import { generatePublicID, getFolderPath } from "../../../publicID";
+
+interface Args {
+  cloudinary: CloudinaryClient;
+  /**
+   * Base folder of the collection's account
+   */
+  folder: string;
+  /**
+   * Collection prefix, used when documents have none
+   */
+  prefix?: string;
+  publicID?: PublicIDOptions;
+  supportDynamicFolderMode?: boolean;
+  options: CloudinaryRenameOptions;
+}
+
+type Rename = {
+  from: string;
+  to: string;
+  resource_type: string;
+  type: string;
+  asset_folder?: string;
+};
+
+// Renames whose document isn't saved yet, keyed by request
+const pendingRenames = new WeakMap<object, Rename[]>();
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Point the delivery URLs of a value (and everything nested in it) at the
+ * new public ID; other strings are left untouched
+ */
+const replacePublicID = <T>(value: T, pattern: RegExp, to: string): T => {
+  if (typeof value === "string") {
+    return (
+      /^https?:\/\//.test(value) ? value.replace(pattern, `/${to}`) : value
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replacePublicID(item, pattern, to)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replacePublicID(item, pattern, to),
+      ]),
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Rename an asset back to its previous public ID
+ * Failures are logged, the asset then stays at its new public ID
+ */
+const undoRename = async (
+  cloudinary: CloudinaryClient,
+  rename: Rename,
+  req: PayloadRequest,
+): Promise<void> => {
+  try {
+    await cloudinary.rename(rename.to, rename.from, {
+      resource_type: rename.resource_type,
+      type: rename.type,
+      invalidate: true,
+    });
+    if (rename.asset_folder !== undefined) {
+      await cloudinary.update(rename.from, {
+        resource_type: rename.resource_type,
+        type: rename.type,
+        asset_folder: rename.asset_folder,
+      });
+    }
+  } catch (error) {
+    req.payload.logger.error({
+      error,
+      message: "Error renaming Cloudinary asset back",
+      from: rename.to,
+      to: rename.from,
+    });
+  }
+};
+
+/**
+ * These hooks keep an asset's public ID in line with its document
+ *
+ * When the `prefix` or `filename` of an existing document changes without a
+ * new file, the asset is renamed before the document is saved and its
+ * public ID and delivery URLs are rewritten. A failed rename rejects the
+ * save; a save failing after the rename renames the asset back
+ */
+export const getRenameAssetHooks = ({
+  cloudinary,
+  folder,
+  prefix,
+  publicID,
+  supportDynamicFolderMode,
+  options,
+}: Args): {
+  beforeChange: CollectionBeforeChangeHook;
+  afterChange: CollectionAfterChangeHook;
+  afterError: CollectionAfterErrorHook;
+} => ({
+  beforeChange: async ({ collection, data, originalDoc, operation, req }) => {
+    const previous = originalDoc?.cloudinary as CloudinaryMetadata | undefined;
+
+    // New files get a new upload; explicit metadata (imports, restores) wins
+    if (
+      operation !== "update" ||
+      req.file ||
+      !previous?.public_id ||
+      (data.cloudinary?.public_id &&
+        data.cloudinary.public_id !== previous.public_id)
+    ) {
+      return data;
+    }
+
+    const filename: string | undefined = data.filename ?? originalDoc.filename;
+    const previousPrefix = originalDoc.prefix || prefix;
+    const nextPrefix =
+      (data.prefix === undefined ? originalDoc.prefix : data.prefix) || prefix;
+    const isFilenameChanged = !!filename && filename !== originalDoc.filename;
+    const isPrefixChanged = (nextPrefix || "") !== (previousPrefix || "");
+
+    if (!isFilenameChanged && !isPrefixChanged) {
+      return data;
+    }
+
+    const location = { folder, prefix: nextPrefix };
+    // A moved asset keeps its name unless the public ID is generated
+    const publicId =
+      isFilenameChanged || publicID?.generatePublicID
+        ? generatePublicID(
+            filename as string,
+            location,
+            publicID,
+            previous.resource_type,
+          )
+        : path.posix.join(
+            getFolderPath(location),
+            path.posix.basename(previous.public_id),
+          );
+
+    if (publicId === previous.public_id) {
+      return data;
+    }
+
+    const rename: Rename = {
+      from: previous.public_id,
+      to: publicId,
+      resource_type: previous.resource_type,
+      type: previous.type || "upload",
+    };
+
+    let result;
+    try {
+      result = await cloudinary.rename(rename.from, rename.to, {
+        resource_type: rename.resource_type,
+        type: rename.type,
+        overwrite: options.overwrite ?? false,
+        invalidate: options.invalidate ?? true,
+      });
+
+      // Dynamic folder mode shows assets by asset folder, not public ID
+      if (supportDynamicFolderMode !== false && isPrefixChanged) {
+        await cloudinary.update(rename.to, {
+          resource_type: rename.resource_type,
+          type: rename.type,
+          asset_folder: getFolderPath(location),
+        });
+        rename.asset_folder = getFolderPath({
+          folder,
+          prefix: previousPrefix,
+        });
+      }
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error renaming Cloudinary asset",
+        from: rename.from,
+        to: rename.to,
+      });
+      if (result) {
+        await undoRename(cloudinary, rename, req);
+      }
+
+      throw new ValidationError({
+        collection: collection.slug,
+        errors: [
+          {
+            message: `The file could not be moved to "${rename.to}": ${
+              error instanceof Error ? error.message : "Something went wrong."
+            }`,
+            path: isFilenameChanged ? "filename" : "prefix",
+          },
+        ],
+      });
+    }
+
+    pendingRenames.set(req, [...(pendingRenames.get(req) || []), rename]);
+
+    const pattern = new RegExp(`/${escapeRegExp(rename.from)}(?=[.?#]|$)`, "g");
+    data.cloudinary = {
+      ...replacePublicID(
+        { ...previous, ...data.cloudinary },
+        pattern,
+        rename.to,
+      ),
+      public_id: result.public_id || rename.to,
+      secure_url:
+        result.secure_url ||
+        replacePublicID(previous.secure_url, pattern, rename.to),
+    };
+    if (data.sizes) {
+      data.sizes = replacePublicID(data.sizes, pattern, rename.to);
+    }
+
+    return data;
+  },
+
+  afterChange: ({ doc, req }) => {
+    const renames = pendingRenames.get(req);
+    if (renames) {
+      pendingRenames.set(
+        req,
+        renames.filter(({ to }) => to !== doc.cloudinary?.public_id),
+      );
+    }
+    return doc;
+  },
+
+  afterError: async ({ req }) => {
+    const renames = pendingRenames.get(req);
+    if (!renames?.length) return;
+
+    pendingRenames.delete(req);
+    for (const rename of renames) {
+      await undoRename(cloudinary, rename, req);
+    }
+  },
+});
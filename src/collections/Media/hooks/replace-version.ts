@@ -0,0 +1,128 @@
+import type { CollectionBeforeChangeHook } from "payload";
+import type {
+  CloudinaryMetadata,
+  CloudinaryResourceTypeMapping,
+  CloudinaryUploadLimits,
+  CloudinaryVersionEntry,
+  CloudinaryVersioningOptions,
+} from "../../../types";
+
+import path from "path";
+import { hasLimits } from "../../../limits";
+import { detectResourceType } from "../../../resourceType";
+import { getVersionEntry } from "../../../versions";
+
+interface Args {
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  limits?: CloudinaryUploadLimits;
+  versioning?: CloudinaryVersioningOptions;
+  /**
+   * Overwrite the public ID when possible
+   * @default true
+   */
+  overwrite?: boolean;
+}
+
+// Assets being replaced in place, keyed by the incoming `data` object
+const replacedAssets = new WeakMap<object, CloudinaryMetadata>();
+
+// Assets to delete once the upload replacing them passed the limits
+const deferredDeletes = new WeakMap<object, CloudinaryMetadata>();
+
+// Documents whose asset must survive the cloud storage plugin's delete step
+const keptDocs = new WeakSet<object>();
+
+/**
+ * The asset a file upload should overwrite, if any
+ */
+export const getReplacedAsset = (
+  data: object,
+): CloudinaryMetadata | undefined => replacedAssets.get(data);
+
+/**
+ * The asset a file upload replaces without overwriting it, to delete once
+ * the new file passed the limits
+ */
+export const getDeferredDelete = (
+  data: object,
+): CloudinaryMetadata | undefined => deferredDeletes.get(data);
+
+/**
+ * Check if a document's asset is being replaced rather than deleted
+ */
+export const isReplacedAsset = (doc: object): boolean => keptDocs.has(doc);
+
+/**
+ * This hook makes a replaced file overwrite the same Cloudinary public ID,
+ * so URLs and references to the asset keep working and, with backups
+ * enabled, Cloudinary keeps the previous bytes as a backed up version
+ *
+ * Only applies when the new file has the same resource type (and, for raw
+ * files, the same extension) since those are part of the asset's identity.
+ * With upload limits, the asset also needs a backed up version to roll back
+ * to; otherwise the previous asset is kept until the new one passed them
+ */
+export const getReplaceVersion =
+  ({
+    resourceTypes,
+    limits,
+    versioning,
+    overwrite = true,
+  }: Args = {}): CollectionBeforeChangeHook =>
+  ({ data, originalDoc, operation, req }) => {
+    const previous = originalDoc?.cloudinary as CloudinaryMetadata | undefined;
+
+    if (operation !== "update" || !req.file || !previous?.public_id) {
+      return data;
+    }
+
+    const ext = path.extname(req.file.name).toLowerCase();
+    // Detected the same way the upload will be
+    const resourceType = detectResourceType({
+      filename: req.file.name,
+      mimeType: req.file.mimetype,
+      buffer: req.file.data,
+      mapping: resourceTypes,
+    });
+
+    if (
+      !overwrite ||
+      resourceType !== previous.resource_type ||
+      (resourceType === "raw" && !previous.public_id.endsWith(ext)) ||
+      (hasLimits(limits) && !previous.version_id)
+    ) {
+      // Limits are partly checked after uploading, so a rejected file must
+      // not cost the document its asset
+      if (hasLimits(limits)) {
+        deferredDeletes.set(data, previous);
+        keptDocs.add(originalDoc);
+      }
+      return data;
+    }
+
+    replacedAssets.set(data, previous);
+    keptDocs.add(originalDoc);
+
+    // Keep appending to the existing history
+    if (!data.versions && Array.isArray(originalDoc.versions)) {
+      data.versions = [...originalDoc.versions];
+    }
+
+    // Files uploaded before the history was stored get their entry now
+    const history: CloudinaryVersionEntry[] = data.versions || [];
+    if (
+      versioning?.enabled &&
+      versioning.storeHistory &&
+      previous.version_id &&
+      !history.some((entry) => entry.version_id === previous.version_id)
+    ) {
+      data.versions = [...history, getVersionEntry(previous)];
+    }
+
+    return data;
+  };
+
+/**
+ * The hook without resource type overrides
+ */
+export const replaceVersion = getReplaceVersion();
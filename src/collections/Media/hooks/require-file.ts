@@ -0,0 +1,31 @@
+import type { CollectionBeforeValidateHook } from "payload";
+
+import { MissingFile } from "payload";
+
+/**
+ * Context flag of the plugin's own creates (client uploads, imports and
+ * restores), which reference an existing asset instead of a file
+ */
+export const EXISTING_ASSET_CONTEXT = "cloudinaryExistingAsset";
+
+/**
+ * This hook keeps files required on create for collections whose
+ * `filesRequiredOnCreate` is turned off so the plugin can create documents
+ * from existing assets. Drafts don't need a file, as in Payload
+ */
+export const requireFile: CollectionBeforeValidateHook = ({
+  context,
+  data,
+  operation,
+  req,
+}) => {
+  if (
+    operation === "create" &&
+    !req.file &&
+    !context?.[EXISTING_ASSET_CONTEXT] &&
+    data?._status !== "draft"
+  ) {
+    throw new MissingFile(req.t);
+  }
+  return data;
+};
@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button, toast, useConfig, useDocumentInfo } from "@payloadcms/ui";
+
+/**
+ * Admin sidebar button of images analyzed by Cloudinary add-ons
+ * Calls the auto-tag endpoint to refresh the labels and suggested caption
+ */
+export const AutoTagButton: React.FC = () => {
+  const { id, collectionSlug } = useDocumentInfo();
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig();
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  if (!id) {
+    return null;
+  }
+
+  const analyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/${collectionSlug}/${id}/cloudinary-auto-tag`,
+        {
+          method: "POST",
+          credentials: "include",
+        },
+      );
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json?.errors?.[0]?.message || "Analysis failed.");
+      }
+
+      toast.success("Labels and caption updated.");
+      // Reload so the form picks up the new labels and alt text
+      window.location.reload();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong.",
+      );
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <Button
+      buttonStyle="secondary"
+      disabled={isAnalyzing}
+      onClick={analyze}
+      size="small"
+    >
+      {isAnalyzing ? "Analyzing..." : "Suggest alt text and labels"}
+    </Button>
+  );
+};
@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Button,
+  toast,
+  useConfig,
+  useDocumentInfo,
+  useFormFields,
+} from "@payloadcms/ui";
+
+type Decision = "approved" | "rejected";
+
+/**
+ * Admin sidebar actions of a moderated asset
+ * Calls the moderation endpoint to approve or reject it
+ */
+export const ModerationActions: React.FC = () => {
+  const status = useFormFields(
+    ([fields]) =>
+      fields["cloudinary.moderation_status"]?.value as string | undefined,
+  );
+  const { id, collectionSlug } = useDocumentInfo();
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig();
+  const [pending, setPending] = useState<Decision | null>(null);
+
+  if (!id || !status) {
+    return null;
+  }
+
+  const moderate = async (decision: Decision) => {
+    setPending(decision);
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/${collectionSlug}/${id}/cloudinary-moderation`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: decision }),
+        },
+      );
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json?.errors?.[0]?.message || "Moderation failed.");
+      }
+
+      toast.success(
+        decision === "approved" ? "Asset approved." : "Asset rejected.",
+      );
+      // Reload so the form picks up the new status
+      window.location.reload();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong.",
+      );
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="field-type">
+      <p>
+        Moderation: <strong>{status}</strong>
+      </p>
+      <Button
+        buttonStyle="primary"
+        disabled={!!pending || status === "approved"}
+        onClick={() => moderate("approved")}
+        size="small"
+      >
+        {pending === "approved" ? "Approving..." : "Approve"}
+      </Button>
+      <Button
+        buttonStyle="secondary"
+        disabled={!!pending || status === "rejected"}
+        onClick={() => moderate("rejected")}
+        size="small"
+      >
+        {pending === "rejected" ? "Rejecting..." : "Reject"}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Button,
+  toast,
+  useConfig,
+  useDocumentInfo,
+  useFormFields,
+} from "@payloadcms/ui";
+
+/**
+ * Admin sidebar button of a trashed asset
+ * Calls the restore endpoint and opens the restored document
+ */
+export const RestoreTrashButton: React.FC = () => {
+  const sourceCollection = useFormFields(
+    ([fields]) => fields.collectionSlug?.value as string | undefined,
+  );
+  const { id, collectionSlug } = useDocumentInfo();
+  const {
+    config: {
+      routes: { admin, api },
+      serverURL,
+    },
+  } = useConfig();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (!id) {
+    return null;
+  }
+
+  const restore = async () => {
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/${collectionSlug}/${id}/restore`,
+        {
+          method: "POST",
+          credentials: "include",
+        },
+      );
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json?.errors?.[0]?.message || "Restore failed.");
+      }
+
+      toast.success("Document restored.");
+      window.location.href = `${serverURL}${admin}/collections/${sourceCollection}/${json.doc.id}`;
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong.",
+      );
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Button
+      buttonStyle="primary"
+      disabled={isRestoring}
+      onClick={restore}
+      size="small"
+    >
+      {isRestoring ? "Restoring..." : "Restore document"}
+    </Button>
+  );
+};
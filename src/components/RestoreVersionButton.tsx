@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Button,
+  toast,
+  useConfig,
+  useDocumentInfo,
+  useFormFields,
+} from "@payloadcms/ui";
+
+type Props = {
+  path?: string;
+};
+
+/**
+ * Admin button rendered in each version history row
+ * Calls the restore endpoint to make that version current again
+ */
+export const RestoreVersionButton: React.FC<Props> = ({ path = "" }) => {
+  // The button lives next to the row's `version_id` field
+  const rowPath = path.split(".").slice(0, -1).join(".");
+  const versionID = useFormFields(
+    ([fields]) => fields[`${rowPath}.version_id`]?.value as string | undefined,
+  );
+  const currentVersionID = useFormFields(
+    ([fields]) => fields["cloudinary.version_id"]?.value as string | undefined,
+  );
+  const { id, collectionSlug } = useDocumentInfo();
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (!id || !versionID || versionID === currentVersionID) {
+    return null;
+  }
+
+  const restore = async () => {
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/${collectionSlug}/${id}/cloudinary-restore`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ version_id: versionID }),
+        },
+      );
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json?.errors?.[0]?.message || "Restore failed.");
+      }
+
+      toast.success("Version restored.");
+      // Reload so the form picks up the new current version
+      window.location.reload();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong.",
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Button
+      buttonStyle="secondary"
+      disabled={isRestoring}
+      onClick={restore}
+      size="small"
+    >
+      {isRestoring ? "Restoring..." : "Restore this version"}
+    </Button>
+  );
+};
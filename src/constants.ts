@@ -8,6 +8,9 @@ export const VIDEO_EXTENSIONS = [
   ".flv",
   ".mkv",
   ".m4v",
+  ".mts",
+  ".m2ts",
+  ".3gp",
 ];
 export const IMAGE_EXTENSIONS = [
   ".jpg",
@@ -18,6 +21,11 @@ export const IMAGE_EXTENSIONS = [
   ".svg",
   ".bmp",
   ".tiff",
+  ".tif",
+  ".jfif",
+  ".avif",
+  ".heic",
+  ".heif",
 ];
 export const RAW_EXTENSIONS = [
   // Documents
@@ -41,3 +49,15 @@ export const RAW_EXTENSIONS = [
   ".xml",
   ".md",
 ];
+// Uploaded as Cloudinary `video` resources
+export const AUDIO_EXTENSIONS = [
+  ".mp3",
+  ".wav",
+  ".m4a",
+  ".flac",
+  ".aac",
+  ".oga",
+  ".opus",
+  ".aiff",
+  ".wma",
+];
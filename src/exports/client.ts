@@ -0,0 +1,4 @@
+export { AutoTagButton } from "../components/AutoTagButton";
+export { ModerationActions } from "../components/ModerationActions";
+export { RestoreTrashButton } from "../components/RestoreTrashButton";
+export { RestoreVersionButton } from "../components/RestoreVersionButton";
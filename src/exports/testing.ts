@@ -0,0 +1,7 @@
+export { createFakeCloudinaryClient } from "../fakeClient";
+export type {
+  FakeAsset,
+  FakeAssetVersion,
+  FakeCloudinaryClient,
+  FakeCloudinaryClientOptions,
+} from "../fakeClient";
@@ -0,0 +1,865 @@
+import type { UploadApiOptions, UploadApiResponse } from "cloudinary";
+import type {
+  CloudinaryClient,
+  CloudinaryResource,
+  CloudinaryResourceOptions,
+} from "./client";
+
+import crypto from "crypto";
+import path from "path";
+import { AUDIO_EXTENSIONS } from "./constants";
+import { toRecord } from "./utils";
+
+export type FakeAssetVersion = {
+  version: number;
+  version_id: string;
+  bytes: Uint8Array;
+  format: string;
+  created_at: string;
+  width?: number;
+  height?: number;
+  pages?: number;
+};
+
+export type FakeAsset = {
+  public_id: string;
+  asset_id: string;
+  resource_type: string;
+  type: string;
+  asset_folder: string;
+  tags: string[];
+  /**
+   * Contextual metadata, by key
+   */
+  context: Record<string, string>;
+  /**
+   * Structured metadata, by external ID
+   */
+  metadata: Record<string, unknown>;
+  /**
+   * Every uploaded version, oldest first; the last one is current
+   */
+  versions: FakeAssetVersion[];
+  /**
+   * Transformations Cloudinary has derivatives for
+   */
+  derived: Set<string>;
+  /**
+   * Moderation requested at upload, e.g. `manual`
+   */
+  moderation?: { kind: string; status: string };
+};
+
+export type FakeCloudinaryClientOptions = {
+  /**
+   * @default 'demo'
+   */
+  cloudName?: string;
+
+  /**
+   * Secret used for signatures
+   * @default 'fake-secret'
+   */
+  apiSecret?: string;
+
+  /**
+   * Dimensions reported for images and videos that aren't PNGs
+   * @default { width: 800, height: 600 }
+   */
+  dimensions?: { width: number; height: number };
+
+  /**
+   * Duration in seconds reported for videos
+   * @default 10
+   */
+  duration?: number;
+};
+
+export type FakeCloudinaryClient = CloudinaryClient & {
+  /**
+   * Stored assets, keyed by resource type, delivery type and public ID
+   */
+  readonly assets: Map<string, FakeAsset>;
+
+  /**
+   * Find a stored asset
+   */
+  getAsset(
+    publicId: string,
+    options?: CloudinaryResourceOptions,
+  ): FakeAsset | undefined;
+
+  /**
+   * Remove every stored asset
+   */
+  reset(): void;
+};
+
+// Short names of the transformation parameters used in eager options
+const TRANSFORMATION_PARAMS: Record<string, string> = {
+  crop: "c",
+  width: "w",
+  height: "h",
+  gravity: "g",
+  quality: "q",
+  fetch_format: "f",
+  format: "f",
+  page: "pg",
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  pdf: "application/pdf",
+};
+
+const getKey = (resourceType: string, type: string, publicId: string) =>
+  `${resourceType}/${type}/${publicId}`;
+
+/**
+ * Canned results of the analysis add-ons, labelling every image `photo`
+ * and its format; captioning describes the format
+ */
+const analyze = (
+  asset: FakeAsset,
+  options: {
+    categorization?: unknown;
+    detection?: unknown;
+    auto_tagging?: unknown;
+    [key: string]: unknown;
+  },
+): Record<string, Record<string, unknown>> | undefined => {
+  const kinds = (value: unknown) =>
+    typeof value === "string" ? value.split(",").filter(Boolean) : [];
+  const categorization = kinds(options.categorization);
+  const detection = kinds(options.detection);
+  if (categorization.length === 0 && detection.length === 0) return undefined;
+
+  const { format } = asset.versions[asset.versions.length - 1];
+  const labels = [
+    { tag: "photo", confidence: 0.95 },
+    { tag: format, confidence: 0.5 },
+  ];
+
+  // Labels above the threshold become tags
+  if (typeof options.auto_tagging === "number") {
+    const threshold = options.auto_tagging;
+    const tags = labels
+      .filter(({ confidence }) => confidence >= threshold)
+      .map(({ tag }) => tag);
+    asset.tags = [...new Set([...asset.tags, ...tags])];
+  }
+
+  return {
+    ...(categorization.length > 0 && {
+      categorization: Object.fromEntries(
+        categorization.map((kind) => [
+          kind,
+          { status: "complete", data: labels },
+        ]),
+      ),
+    }),
+    ...(detection.includes("captioning") && {
+      detection: {
+        captioning: {
+          status: "complete",
+          data: { caption: `A ${format} image` },
+        },
+      },
+    }),
+  };
+};
+
+const randomHex = (bytes = 16) => crypto.randomBytes(bytes).toString("hex");
+
+const notFound = (publicId: string) =>
+  Object.assign(new Error(`Resource not found - ${publicId}`), {
+    http_code: 404,
+    error: { message: `Resource not found - ${publicId}`, http_code: 404 },
+  });
+
+/**
+ * Check if a format is an audio format, stored as a `video` resource
+ */
+const isAudioFormat = (format: string | undefined): boolean =>
+  !!format && AUDIO_EXTENSIONS.includes(`.${format}`);
+
+/**
+ * Detect the format of uploaded bytes from their signature
+ */
+const detectFormat = (file: Buffer): string | undefined => {
+  const signatures: [string, number[]][] = [
+    ["png", [0x89, 0x50, 0x4e, 0x47]],
+    ["jpg", [0xff, 0xd8, 0xff]],
+    ["gif", [0x47, 0x49, 0x46]],
+    ["pdf", [0x25, 0x50, 0x44, 0x46]],
+    ["mp3", [0x49, 0x44, 0x33]],
+    ["flac", [0x66, 0x4c, 0x61, 0x43]],
+  ];
+  const match = signatures.find(([, bytes]) =>
+    bytes.every((byte, index) => file[index] === byte),
+  );
+  if (match) return match[0];
+
+  const riff = file.subarray(8, 12).toString("latin1");
+  if (riff === "WEBP") return "webp";
+  if (riff === "WAVE") return "wav";
+  if (file.subarray(4, 8).toString("latin1") === "ftyp") return "mp4";
+  return undefined;
+};
+
+/**
+ * Serialize eager options the way Cloudinary reports them
+ */
+const serializeEager = (eager: Record<string, unknown>): string => {
+  if (typeof eager.raw_transformation === "string") {
+    return eager.raw_transformation;
+  }
+  return Object.entries(eager)
+    .filter(([key, value]) => TRANSFORMATION_PARAMS[key] && value !== undefined)
+    .map(([key, value]) => `${TRANSFORMATION_PARAMS[key]}_${value}`)
+    .join(",");
+};
+
+/**
+ * Read a numeric parameter from a serialized transformation
+ */
+const getTransformationParam = (
+  transformation: string,
+  name: string,
+): string | undefined =>
+  transformation
+    .split(/[,/]/)
+    .find((param) => param.startsWith(`${name}_`))
+    ?.slice(name.length + 1);
+
+/**
+ * In-memory Cloudinary client for tests and offline development
+ *
+ * Uploads are stored with their bytes and every version, and delivery,
+ * download and backup URLs built by the client (or following Cloudinary's
+ * URL scheme) are served by its `fetch`, including range and conditional
+ * requests
+ */
+export const createFakeCloudinaryClient = ({
+  cloudName = "demo",
+  apiSecret = "fake-secret",
+  dimensions = { width: 800, height: 600 },
+  duration = 10,
+}: FakeCloudinaryClientOptions = {}): FakeCloudinaryClient => {
+  const assets = new Map<string, FakeAsset>();
+  let lastVersion = 0;
+
+  const sign = (params: Record<string, unknown>): string => {
+    const toSign = Object.entries(params)
+      .filter(
+        ([, value]) => value !== undefined && value !== null && value !== "",
+      )
+      .map(
+        ([key, value]) =>
+          `${key}=${Array.isArray(value) ? value.join(",") : value}`,
+      )
+      .sort()
+      .join("&");
+    return crypto
+      .createHash("sha1")
+      .update(toSign + apiSecret)
+      .digest("hex");
+  };
+
+  const getAsset = (
+    publicId: string,
+    { resource_type, type = "upload" }: CloudinaryResourceOptions = {},
+  ): FakeAsset | undefined => {
+    if (resource_type) {
+      return assets.get(getKey(resource_type, type, publicId));
+    }
+    return [...assets.values()].find(
+      (asset) => asset.public_id === publicId && asset.type === type,
+    );
+  };
+
+  const current = (asset: FakeAsset) =>
+    asset.versions[asset.versions.length - 1];
+
+  const deliveryURL = (asset: FakeAsset, version = current(asset)) => {
+    const extension = asset.resource_type === "raw" ? "" : `.${version.format}`;
+    return `https://res.cloudinary.com/${cloudName}/${asset.resource_type}/${asset.type}/v${version.version}/${asset.public_id}${extension}`;
+  };
+
+  const toResource = (
+    asset: FakeAsset,
+    version = current(asset),
+  ): CloudinaryResource & { version_id: string } => ({
+    public_id: asset.public_id,
+    asset_id: asset.asset_id,
+    resource_type: asset.resource_type,
+    type: asset.type,
+    format: version.format,
+    version: version.version,
+    version_id: version.version_id,
+    secure_url: deliveryURL(asset, version),
+    bytes: version.bytes.length,
+    created_at: version.created_at,
+    ...(version.width && { width: version.width, height: version.height }),
+    ...(asset.resource_type === "video" && { duration }),
+    ...(isAudioFormat(version.format) && { is_audio: true }),
+    ...(version.pages && { pages: version.pages }),
+    tags: asset.tags,
+    ...(Object.keys(asset.context).length > 0 && {
+      context: { custom: asset.context },
+    }),
+    ...(Object.keys(asset.metadata).length > 0 && {
+      metadata: asset.metadata,
+    }),
+  });
+
+  const getSearchFields = (asset: FakeAsset): Record<string, string[]> => ({
+    public_id: [asset.public_id],
+    folder: [path.posix.dirname(asset.public_id)],
+    asset_folder: [asset.asset_folder],
+    tags: asset.tags,
+    resource_type: [asset.resource_type],
+    type: [asset.type],
+    format: [current(asset).format],
+  });
+
+  /**
+   * Match an asset against a Search API expression
+   * Supports `field=value`, `field:value*` and `field:value` terms, negated
+   * with a leading `-`, combined with AND, and OR inside parentheses
+   */
+  const matches = (asset: FakeAsset, expression: string): boolean =>
+    expression.split(/\s+AND\s+/).every((term) =>
+      term
+        .replace(/^\(|\)$/g, "")
+        .split(/\s+OR\s+/)
+        .some((condition) => {
+          const match = condition.match(/^(-?)(\w+)\s*([:=])\s*"?([^"]*)"?$/);
+          if (!match) return false;
+          const [, negation, field, operator, value] = match;
+
+          const values = getSearchFields(asset)[field] || [];
+
+          const isMatch = values.some((candidate) =>
+            operator === ":" && value.endsWith("*")
+              ? candidate.startsWith(value.slice(0, -1))
+              : candidate === value,
+          );
+          return negation ? !isMatch : isMatch;
+        }),
+    );
+
+  /**
+   * Resolve a delivery URL path to an asset and a transformation
+   */
+  const resolveDeliveryPath = (
+    resourceType: string,
+    type: string,
+    segments: string[],
+  ): { asset: FakeAsset; transformation: string } | undefined => {
+    const rest = segments[0]?.startsWith("s--") ? segments.slice(1) : segments;
+
+    for (let index = 0; index < rest.length; index += 1) {
+      const parts = rest.slice(index);
+      const isVersion = /^v\d+$/.test(parts[0]);
+      const publicPath = (isVersion ? parts.slice(1) : parts).join("/");
+      const candidates = [
+        publicPath,
+        publicPath.slice(
+          0,
+          publicPath.length - path.extname(publicPath).length,
+        ),
+      ];
+
+      for (const publicId of candidates) {
+        // PDFs are stored as raw files but rendered through the image pipeline
+        const asset =
+          getAsset(publicId, { resource_type: resourceType, type }) ||
+          getAsset(publicId, { type });
+        if (asset) {
+          return {
+            asset,
+            transformation: rest
+              .slice(0, index)
+              .filter((segment) => !/^v\d+$/.test(segment))
+              .join("/"),
+          };
+        }
+      }
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Serve stored bytes, honoring range and conditional requests
+   */
+  const serve = (
+    version: FakeAssetVersion,
+    format: string,
+    init?: RequestInit,
+  ): Response => {
+    const requestHeaders = new Headers(init?.headers);
+    const etag = `"${version.version_id}"`;
+    const headers = new Headers({
+      "accept-ranges": "bytes",
+      "content-type": CONTENT_TYPES[format] || "application/octet-stream",
+      etag,
+      "last-modified": new Date(version.created_at).toUTCString(),
+    });
+
+    if (requestHeaders.get("if-none-match") === etag) {
+      return new Response(null, { headers, status: 304 });
+    }
+
+    const range = requestHeaders.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range) {
+      const size = version.bytes.length;
+      const start = range[1] ? Number(range[1]) : size - Number(range[2]);
+      const end = range[1] && range[2] ? Number(range[2]) : size - 1;
+
+      if (start >= size || start > end) {
+        headers.set("content-range", `bytes */${size}`);
+        return new Response(null, { headers, status: 416 });
+      }
+
+      const chunk = version.bytes.subarray(start, Math.min(end, size - 1) + 1);
+      headers.set(
+        "content-range",
+        `bytes ${start}-${start + chunk.length - 1}/${size}`,
+      );
+      headers.set("content-length", String(chunk.length));
+      return new Response(chunk, { headers, status: 206 });
+    }
+
+    headers.set("content-length", String(version.bytes.length));
+    return new Response(version.bytes, { headers, status: 200 });
+  };
+
+  const client: FakeCloudinaryClient = {
+    cloudName,
+    assets,
+    getAsset,
+
+    reset: () => {
+      assets.clear();
+    },
+
+    upload: async (
+      file: Buffer,
+      options: UploadApiOptions,
+    ): Promise<UploadApiResponse> => {
+      const detected = detectFormat(file);
+      const resourceType =
+        !options.resource_type || options.resource_type === "auto"
+          ? detected === "mp4" || isAudioFormat(detected)
+            ? "video"
+            : "image"
+          : options.resource_type;
+      const type = options.type || "upload";
+      const publicId = options.public_id || randomHex(10);
+      const key = getKey(resourceType, type, publicId);
+      const existing = assets.get(key);
+
+      // Cloudinary keeps the existing asset unless overwriting is allowed
+      if (existing && options.overwrite === false) {
+        return {
+          ...toResource(existing),
+          existing: true,
+          signature: sign({
+            public_id: publicId,
+            version: current(existing).version,
+          }),
+        } as unknown as UploadApiResponse;
+      }
+
+      const format =
+        resourceType === "raw"
+          ? path.extname(publicId).slice(1) || detected || ""
+          : detected ||
+            (typeof options.format === "string" && options.format) ||
+            (resourceType === "video" ? "mp4" : "jpg");
+
+      const size =
+        resourceType === "raw" || isAudioFormat(format)
+          ? undefined
+          : format === "png" && file.length >= 24
+            ? { width: file.readUInt32BE(16), height: file.readUInt32BE(20) }
+            : dimensions;
+
+      // Versions are upload timestamps in seconds, always increasing
+      lastVersion = Math.max(Math.floor(Date.now() / 1000), lastVersion + 1);
+      const version: FakeAssetVersion = {
+        version: lastVersion,
+        version_id: randomHex(),
+        bytes: Uint8Array.from(file),
+        format,
+        created_at: new Date().toISOString(),
+        ...size,
+        ...(format === "pdf" &&
+          options.pages && {
+            pages: Math.max(
+              (file.toString("latin1").match(/\/Type\s*\/Page\b/g) || [])
+                .length,
+              1,
+            ),
+          }),
+      };
+
+      const asset: FakeAsset = existing || {
+        public_id: publicId,
+        asset_id: randomHex(),
+        resource_type: resourceType,
+        type,
+        asset_folder: options.asset_folder || path.posix.dirname(publicId),
+        tags: [],
+        context: {},
+        metadata: {},
+        versions: [],
+        derived: new Set(),
+      };
+      asset.versions.push(version);
+      asset.tags = Array.isArray(options.tags)
+        ? options.tags
+        : typeof options.tags === "string"
+          ? options.tags.split(",")
+          : asset.tags;
+      if (options.context !== undefined) {
+        asset.context = Object.fromEntries(
+          Object.entries(toRecord(options.context)).map(([key, value]) => [
+            key,
+            String(value),
+          ]),
+        );
+      }
+      asset.metadata = {
+        ...asset.metadata,
+        ...toRecord(options.metadata),
+      };
+      if (existing && options.invalidate) {
+        asset.derived.clear();
+      }
+      // Every uploaded version waits for moderation again
+      asset.moderation =
+        typeof options.moderation === "string"
+          ? { kind: options.moderation, status: "pending" }
+          : undefined;
+      assets.set(key, asset);
+      const info = analyze(asset, options);
+
+      // Async derivatives are reported later, through notifications
+      const eager = Array.isArray(options.eager)
+        ? (options.eager as Record<string, unknown>[])
+        : options.eager
+          ? [options.eager as Record<string, unknown>]
+          : [];
+      const eagerResults = eager.map((entry) => {
+        const transformation = serializeEager(entry);
+        asset.derived.add(transformation);
+        const derivedFormat =
+          getTransformationParam(transformation, "f") ||
+          (typeof entry.format === "string" ? entry.format : format);
+        return {
+          transformation,
+          width:
+            Number(getTransformationParam(transformation, "w")) || size?.width,
+          height:
+            Number(getTransformationParam(transformation, "h")) || size?.height,
+          bytes: version.bytes.length,
+          format: derivedFormat,
+          secure_url: `https://res.cloudinary.com/${cloudName}/${resourceType === "raw" ? "image" : resourceType}/${type}/${transformation}/v${version.version}/${publicId.replace(/\.pdf$/, "")}.${derivedFormat}`,
+        };
+      });
+
+      return {
+        ...toResource(asset),
+        original_filename: path.posix.basename(publicId, `.${format}`),
+        ...(asset.moderation && { moderation: [asset.moderation] }),
+        ...(info && { info }),
+        ...(eager.length > 0 &&
+          !options.eager_async && { eager: eagerResults }),
+        signature: sign({ public_id: publicId, version: version.version }),
+      } as unknown as UploadApiResponse;
+    },
+
+    resource: async (publicId, options) => {
+      const asset = getAsset(publicId, {
+        resource_type: options.resource_type || "image",
+        type: options.type,
+      });
+      if (!asset) throw notFound(publicId);
+      return toResource(asset);
+    },
+
+    destroy: async (publicId, options) => {
+      const key = getKey(
+        options.resource_type || "image",
+        options.type || "upload",
+        publicId,
+      );
+      return { result: assets.delete(key) ? "ok" : "not found" };
+    },
+
+    rename: async (fromPublicId, toPublicId, options) => {
+      const resourceType = options.resource_type || "image";
+      const type = options.type || "upload";
+      const asset = getAsset(fromPublicId, {
+        resource_type: resourceType,
+        type,
+      });
+      if (!asset) throw notFound(fromPublicId);
+
+      const toType = options.to_type || type;
+      const targetKey = getKey(resourceType, toType, toPublicId);
+      if (assets.has(targetKey) && !options.overwrite) {
+        throw Object.assign(
+          new Error(`Resource already exists - ${toPublicId}`),
+          {
+            http_code: 409,
+            error: {
+              message: `Resource already exists - ${toPublicId}`,
+              http_code: 409,
+            },
+          },
+        );
+      }
+
+      // Derivatives are generated again for the new public ID
+      assets.delete(getKey(resourceType, type, fromPublicId));
+      asset.public_id = toPublicId;
+      asset.type = toType;
+      asset.derived.clear();
+      assets.set(targetKey, asset);
+      return toResource(asset);
+    },
+
+    deleteDerived: async (publicIds, transformation, options) => {
+      const deleted: Record<string, string> = {};
+      publicIds.forEach((publicId) => {
+        const asset = getAsset(publicId, {
+          resource_type: options.resource_type || "image",
+          type: options.type,
+        });
+        deleted[publicId] =
+          asset && asset.derived.delete(transformation)
+            ? "deleted"
+            : "not_found";
+      });
+      return { deleted };
+    },
+
+    update: async (publicId, options) => {
+      const asset = getAsset(publicId, {
+        resource_type: options.resource_type || "image",
+        type: options.type,
+      });
+      if (!asset) throw notFound(publicId);
+      if (options.tags) {
+        asset.tags = options.tags;
+      }
+      if (options.context) {
+        asset.context = options.context;
+      }
+      if (options.asset_folder !== undefined) {
+        asset.asset_folder = options.asset_folder;
+      }
+      // Structured metadata fields are set one by one, cleared when empty
+      for (const [key, value] of Object.entries(options.metadata || {})) {
+        if (value === "") {
+          delete asset.metadata[key];
+        } else {
+          asset.metadata[key] = value;
+        }
+      }
+      const info = analyze(asset, options);
+      if (options.moderation_status) {
+        asset.moderation = {
+          kind: asset.moderation?.kind || "manual",
+          status: options.moderation_status,
+        };
+      }
+      return {
+        ...toResource(asset),
+        ...(asset.moderation && {
+          moderation_status: asset.moderation.status,
+        }),
+        ...(info && { info }),
+      };
+    },
+
+    restore: async (publicIds, options) =>
+      Object.fromEntries(
+        publicIds.map((publicId) => {
+          const asset = getAsset(publicId, {
+            resource_type: options.resource_type || "image",
+            type: options.type,
+          });
+          const backup = asset?.versions.find((version) =>
+            options.versions?.includes(version.version_id),
+          );
+          if (!asset || !backup) {
+            return [publicId, { error: { message: "Version not found" } }];
+          }
+
+          // The backup becomes a new current version
+          lastVersion = Math.max(
+            Math.floor(Date.now() / 1000),
+            lastVersion + 1,
+          );
+          asset.versions.push({
+            ...backup,
+            version: lastVersion,
+            version_id: randomHex(),
+            created_at: new Date().toISOString(),
+          });
+          return [publicId, toResource(asset)];
+        }),
+      ),
+
+    search: async (expression, { maxResults, nextCursor }) => {
+      const results = [...assets.values()]
+        .filter((asset) => matches(asset, expression))
+        .sort((a, b) => a.public_id.localeCompare(b.public_id));
+      const start = nextCursor ? Number(nextCursor) : 0;
+      const end = start + maxResults;
+
+      return {
+        resources: results.slice(start, end).map((asset) => toResource(asset)),
+        ...(end < results.length && { next_cursor: String(end) }),
+      };
+    },
+
+    signedURL: (
+      publicId,
+      {
+        resource_type = "image",
+        type = "upload",
+        version,
+        format,
+        transformation,
+      },
+    ) => {
+      const signature = sign({ public_id: publicId, transformation }).slice(
+        0,
+        8,
+      );
+      return [
+        `https://res.cloudinary.com/${cloudName}/${resource_type}/${type}`,
+        `s--${signature}--`,
+        transformation,
+        version && `v${version}`,
+        `${publicId}${format ? `.${format}` : ""}`,
+      ]
+        .filter(Boolean)
+        .join("/");
+    },
+
+    privateDownloadURL: (publicId, format, options) => {
+      const params = {
+        public_id: publicId,
+        format,
+        type: options.type,
+        expires_at: options.expires_at,
+      };
+      const query = new URLSearchParams(
+        Object.entries({ ...params, signature: sign(params) }).filter(
+          ([, value]) => value !== undefined && value !== "",
+        ) as [string, string][],
+      );
+      return `https://api.cloudinary.com/v1_1/${cloudName}/${options.resource_type || "image"}/download?${query}`;
+    },
+
+    backedUpAssetURL: (assetId, versionId) => {
+      const params = { asset_id: assetId, version_id: versionId };
+      const query = new URLSearchParams({ ...params, signature: sign(params) });
+      return `https://api.cloudinary.com/v1_1/${cloudName}/download_backup?${query}`;
+    },
+
+    buildUploadParams: (options) =>
+      Object.fromEntries(
+        Object.entries(options)
+          .filter(([key]) => key !== "resource_type" && key !== "chunk_size")
+          .map(([key, value]) => [
+            key,
+            Array.isArray(value)
+              ? value
+                  .map((entry) =>
+                    typeof entry === "object" ? serializeEager(entry) : entry,
+                  )
+                  .join("|")
+              : value,
+          ]),
+      ),
+
+    signRequest: (params) => sign(params),
+
+    fetch: async (url, init) => {
+      const { hostname, pathname, searchParams } = new URL(url);
+      const segments = pathname
+        .split("/")
+        .filter(Boolean)
+        .map(decodeURIComponent);
+
+      if (hostname === "api.cloudinary.com") {
+        if (segments[segments.length - 1] === "download_backup") {
+          const asset = [...assets.values()].find(
+            (candidate) => candidate.asset_id === searchParams.get("asset_id"),
+          );
+          const version = asset?.versions.find(
+            (candidate) =>
+              candidate.version_id === searchParams.get("version_id"),
+          );
+          return version
+            ? serve(version, version.format, init)
+            : new Response(null, { status: 404 });
+        }
+
+        // Private download URL of the current version
+        const expiresAt = Number(searchParams.get("expires_at"));
+        const asset = getAsset(searchParams.get("public_id") || "", {
+          resource_type: segments[2],
+          type: searchParams.get("type") || "upload",
+        });
+        if (!asset || (expiresAt && expiresAt * 1000 < Date.now())) {
+          return new Response(null, { status: 404 });
+        }
+        return serve(current(asset), current(asset).format, init);
+      }
+
+      if (hostname !== "res.cloudinary.com" || segments[0] !== cloudName) {
+        return new Response(null, { status: 404 });
+      }
+
+      const [, resourceType, type, ...rest] = segments;
+      const resolved = resolveDeliveryPath(resourceType, type, rest);
+      if (!resolved) {
+        return new Response(null, { status: 404 });
+      }
+
+      // Derivatives are generated on first request
+      const { asset, transformation } = resolved;
+      if (transformation) {
+        asset.derived.add(transformation);
+      }
+
+      const version = current(asset);
+      const requestedFormat = getTransformationParam(transformation, "f");
+      const format =
+        (requestedFormat !== "auto" && requestedFormat) ||
+        path.extname(rest[rest.length - 1]).slice(1) ||
+        version.format;
+      return serve(version, format, init);
+    },
+  };
+
+  return client;
+};
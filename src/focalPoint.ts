@@ -0,0 +1,105 @@
+import type {
+  CloudinaryFocalPointOptions,
+  CloudinaryTransformation,
+} from "./types";
+
+// Crop modes that keep part of the image, where gravity picks the part
+const CROPPING_MODES = ["crop", "fill", "lfill", "thumb"];
+
+// Gravities a document focal point takes precedence over
+const AUTOMATIC_GRAVITIES = ["auto"];
+
+/**
+ * Gravity of a document's cropped renditions
+ */
+export type CloudinaryFocus = Pick<
+  CloudinaryTransformation,
+  "gravity" | "x" | "y"
+>;
+
+type FocalPointDocument = {
+  focalX?: number | null;
+  focalY?: number | null;
+  [key: string]: unknown;
+};
+
+/**
+ * Relative coordinate Cloudinary reads as a fraction of the image size
+ * The decimal point is required, `x_1` would mean one pixel
+ */
+const toRelative = (percentage: number): string => {
+  const value = Math.min(Math.max(percentage, 0), 100) / 100;
+  return Number.isInteger(value) ? value.toFixed(1) : String(+value.toFixed(4));
+};
+
+/**
+ * Resolve the gravity of a document's cropped renditions
+ *
+ * A focal point becomes `g_xy_center` with relative `x_`/`y_` coordinates.
+ * Payload stores `50/50` for documents nobody set a focal point on, which
+ * falls back to `fallbackGravity` (if any)
+ */
+export const getFocus = (
+  doc: FocalPointDocument | undefined,
+  options: CloudinaryFocalPointOptions | undefined,
+): CloudinaryFocus | undefined => {
+  if (!options) return undefined;
+
+  const { focalX, focalY } = doc || {};
+  const hasFocalPoint =
+    typeof focalX === "number" &&
+    typeof focalY === "number" &&
+    !(focalX === 50 && focalY === 50);
+
+  if (hasFocalPoint) {
+    return {
+      gravity: "xy_center",
+      x: toRelative(focalX),
+      y: toRelative(focalY),
+    };
+  }
+
+  return options.fallbackGravity
+    ? { gravity: options.fallbackGravity }
+    : undefined;
+};
+
+/**
+ * Apply a document's focus to a cropping transformation
+ * Explicit gravities are kept, except automatic ones when the document has
+ * a focal point
+ */
+export const applyFocus = <T extends CloudinaryTransformation | undefined>(
+  transformation: T,
+  focus: CloudinaryFocus | undefined,
+): T => {
+  if (
+    !transformation ||
+    !focus ||
+    !transformation.crop ||
+    !CROPPING_MODES.includes(transformation.crop)
+  ) {
+    return transformation;
+  }
+
+  const { gravity } = transformation;
+  const isFocalPoint = focus.gravity === "xy_center";
+  if (gravity && !(isFocalPoint && AUTOMATIC_GRAVITIES.includes(gravity))) {
+    return transformation;
+  }
+
+  return { ...transformation, ...focus };
+};
+
+/**
+ * Serialized gravity components, e.g. `g_xy_center,x_0.3,y_0.6`
+ * For hand-built cropping segments (PDF thumbnails)
+ */
+export const serializeFocus = (focus: CloudinaryFocus | undefined): string =>
+  focus?.gravity
+    ? [
+        `g_${focus.gravity}`,
+        ...(focus.x !== undefined ? [`x_${focus.x}`] : []),
+        ...(focus.y !== undefined ? [`y_${focus.y}`] : []),
+      ].join(",")
+    : "";
@@ -1,27 +1,54 @@
 import type { GenerateURL } from "@payloadcms/plugin-cloud-storage/types";
+import type { BasePayload } from "payload";
+import type { CloudinaryClient } from "./client";
 import type { CloudinaryStorageOptions } from "./index";
-import type { GenerateURLParams, CloudinaryGenerateURL } from "./types";
+import type {
+  GenerateURLParams,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryGenerateURL,
+  CloudinaryModerationOptions,
+  CloudinaryResourceTypeMapping,
+  PublicIDOptions,
+} from "./types";
 
 import path from "path";
 import {
-  IMAGE_EXTENSIONS,
-  RAW_EXTENSIONS,
-  VIDEO_EXTENSIONS,
-} from "./constants";
+  findImageSizeByFilename,
+  getImageSizes,
+  getImageSizeTransformationString,
+  getImageSizeURL,
+} from "./imageSizes";
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+import {
+  getTransformationPreset,
+  serializeTransformation,
+} from "./transformations";
+import { findVersionEntry } from "./versions";
+import { applyFocus, getFocus } from "./focalPoint";
+import { getAudioURL, isAudioDocument } from "./audio";
+import { findFileDocument, resolvePublicID } from "./publicID";
+import { detectResourceType } from "./resourceType";
+import { isModerationBlocked } from "./moderation";
 
 interface Args {
+  cloudinary: CloudinaryClient;
   config: CloudinaryStorageOptions["config"];
   folder: string;
   versioning?: CloudinaryStorageOptions["versioning"];
+  transformations?: CloudinaryStorageOptions["transformations"];
+  deliveryType?: CloudinaryDeliveryType;
+  signedURLExpiresIn?: number;
+  publicID?: PublicIDOptions;
+  focalPoint?: CloudinaryFocalPointOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  moderation?: CloudinaryModerationOptions;
+  /**
+   * Payload instance used to look up documents passed without metadata
+   */
+  getPayload?: () => BasePayload | undefined;
 }
 
-const getResourceType = (ext: string): string => {
-  if (VIDEO_EXTENSIONS.includes(ext)) return "video";
-  if (IMAGE_EXTENSIONS.includes(ext)) return "image";
-  if (RAW_EXTENSIONS.includes(ext)) return "raw";
-  return "auto"; // Default to auto for unknown types
-};
-
 /**
  * Check if a file is a PDF based on its file extension
  */
@@ -30,48 +57,220 @@ const isPDF = (filename: string): boolean => {
   return ext === ".pdf";
 };
 
+/**
+ * URL of a version of a file on the collection's file route
+ */
+const getFileRouteURL = (
+  payload: BasePayload | undefined,
+  collectionSlug: string,
+  filename: string,
+  version: string | number,
+): string => {
+  const serverURL = payload?.config.serverURL?.replace(/\/$/, "") || "";
+  const api = payload?.config.routes?.api ?? "/api";
+  return `${serverURL}${api}/${collectionSlug}/file/${encodeURIComponent(
+    filename,
+  )}?version=${encodeURIComponent(String(version))}`;
+};
+
 export const getGenerateURL = ({
+  cloudinary,
   config,
   folder,
   versioning,
+  transformations,
+  deliveryType = "upload",
+  signedURLExpiresIn,
+  publicID,
+  focalPoint,
+  resourceTypes,
+  moderation,
+  getPayload,
 }: Args): GenerateURL => {
   const generateURL: CloudinaryGenerateURL = (params: GenerateURLParams) => {
-    const { filename, prefix = "", version, pdf_page } = params;
-    // Construct the folder path with proper handling of prefix
-    const folderPath = prefix ? path.posix.join(folder, prefix) : folder;
-    const filePath = path.posix.join(folderPath, filename);
-    const public_id = filePath.replace(/\.[^/.]+$/, ""); // Remove file extension
+    const { filename, prefix = "", version, pdf_page, transformation } = params;
+    const stored = params.data?.cloudinary;
+
+    // Pending and rejected assets are withheld until a moderator approves them
+    if (isModerationBlocked(stored, moderation)) {
+      return {
+        url: moderation?.placeholderURL || "",
+        public_id: stored?.public_id || "",
+      };
+    }
+
+    // Documents keep the delivery type they were uploaded with
+    const type: CloudinaryDeliveryType = stored?.type || deliveryType;
+    const isRestricted = isRestrictedDeliveryType(type);
+    const focus = getFocus(params.data, focalPoint);
+
+    // Image sizes are derivatives of the original asset
+    const sizeName = findImageSizeByFilename(params.data?.sizes, filename);
+    const size = getImageSizes(params.collection).find(
+      (imageSize) => imageSize.name === sizeName,
+    );
+    if (size && stored?.public_id) {
+      return {
+        url: isRestricted
+          ? getSignedURL(cloudinary, {
+              public_id: stored.public_id,
+              format: stored.format,
+              resource_type: "image",
+              type,
+              version: stored.version,
+              transformation: getImageSizeTransformationString(
+                size,
+                stored.format,
+                focus,
+              ),
+              expiresIn: signedURLExpiresIn,
+            })
+          : getImageSizeURL(config.cloud_name, size, stored, focus),
+        public_id: stored.public_id,
+      };
+    }
+
+    // Previous versions are only available from Cloudinary's backups, whose
+    // download URLs carry an API signature: the file route proxies them
+    // after checking read access instead
+    if (
+      versioning?.enabled &&
+      version &&
+      stored?.public_id &&
+      String(version) !== stored.version
+    ) {
+      const entry = findVersionEntry(params.data?.versions, version);
+      if (entry?.version_id && stored.asset_id) {
+        return {
+          url: getFileRouteURL(
+            getPayload?.(),
+            params.collection.slug,
+            filename,
+            version,
+          ),
+          public_id: stored.public_id,
+        };
+      }
+    }
+
+    // Prefer the public ID stored at upload over rebuilding it
+    const public_id = resolvePublicID({
+      filename,
+      doc: params.data,
+      folder,
+      prefix,
+      publicID,
+      resourceTypes,
+    });
     const ext = path.extname(filename).toLowerCase();
-    const resourceType = getResourceType(ext);
+    // Documents without a stored resource type fall back to their MIME type
+    const resourceType =
+      stored?.resource_type ||
+      detectResourceType({
+        filename,
+        mimeType: params.data?.mimeType,
+        mapping: resourceTypes,
+      });
     const baseUrl = `https://res.cloudinary.com/${config.cloud_name}`;
 
     // Add version to URL if versioning is enabled and version is provided
+    // Cloudinary expects it after the transformation components
     const versionSegment = versioning?.enabled && version ? `/v${version}` : "";
 
     // Check if this is a PDF and we're requesting it as an image
     const isPDFFile = isPDF(filename);
 
+    // Resolve the named preset (throws for unknown names)
+    const preset = applyFocus(
+      transformation
+        ? getTransformationPreset(transformations, transformation)
+        : undefined,
+      focus,
+    );
+
+    // Audio is transcoded to the requested format on delivery
+    if (params.format && isAudioDocument({ filename, cloudinary: stored })) {
+      return {
+        url: getAudioURL(
+          cloudinary,
+          {
+            public_id,
+            type,
+            version: versioning?.enabled ? version : undefined,
+          },
+          params.format,
+          undefined,
+          signedURLExpiresIn,
+        ),
+        public_id,
+      };
+    }
+
+    // Authenticated and private assets are only reachable through signed URLs
+    if (isRestricted) {
+      const isPDFPage = isPDFFile && (params.format === "jpg" || !!preset);
+      // PDF pages are rendered through the image pipeline
+      const signedResourceType = isPDFPage
+        ? "image"
+        : stored?.resource_type ||
+          (resourceType === "auto" ? "image" : resourceType);
+      const target = isPDFPage
+        ? "pdf"
+        : signedResourceType === "image" || signedResourceType === "video"
+          ? signedResourceType
+          : undefined;
+
+      return {
+        url: getSignedURL(cloudinary, {
+          public_id: isPDFPage ? public_id.replace(/\.pdf$/, "") : public_id,
+          // Raw public IDs already include their extension
+          format: isPDFPage
+            ? "pdf"
+            : signedResourceType === "raw"
+              ? ""
+              : stored?.format || ext.slice(1),
+          resource_type: signedResourceType,
+          type,
+          version: versioning?.enabled ? version : undefined,
+          transformation:
+            target && (preset || isPDFPage)
+              ? serializeTransformation(preset, {
+                  target,
+                  page: pdf_page || 1,
+                })
+              : undefined,
+          expiresIn: signedURLExpiresIn,
+        }),
+        public_id: public_id,
+      };
+    }
+
     let url: string;
 
-    // Special handling for PDFs when requested as images (thumbnails)
-    if (isPDFFile && params.format === "jpg") {
+    // Special handling for PDFs when requested as images (thumbnails or presets)
+    if (isPDFFile && (params.format === "jpg" || preset)) {
       // Use the page parameter if provided, or default to page 1
-      const pageNumber = pdf_page || 1;
-      url = `${baseUrl}/image/upload${versionSegment}/pg_${pageNumber},f_jpg,q_auto/${public_id}.pdf`;
+      const segment = serializeTransformation(preset, {
+        target: "pdf",
+        page: pdf_page || 1,
+      });
+      url = `${baseUrl}/image/upload/${segment}${versionSegment}/${public_id.replace(/\.pdf$/, "")}.pdf`;
     } else {
       switch (resourceType) {
         case "video":
-          url = `${baseUrl}/video/upload${versionSegment}/f_auto,q_auto/${filePath}`;
-          break;
-        case "image":
-          url = `${baseUrl}/image/upload${versionSegment}/f_auto,q_auto/${filePath}`;
+        case "image": {
+          const segment = serializeTransformation(preset, {
+            target: resourceType,
+          });
+          url = `${baseUrl}/${resourceType}/upload/${segment}${versionSegment}/${public_id}.${stored?.format || ext.slice(1)}`;
           break;
+        }
         case "raw":
-          // For regular raw files
-          url = `${baseUrl}/raw/upload${versionSegment}/${filePath}`;
+          // Raw public IDs already include their extension
+          url = `${baseUrl}/raw/upload${versionSegment}/${public_id}`;
           break;
         default:
-          url = `${baseUrl}/auto/upload${versionSegment}/${filePath}`;
+          url = `${baseUrl}/auto/upload${versionSegment}/${public_id}${ext}`;
       }
     }
 
@@ -82,5 +281,19 @@ export const getGenerateURL = ({
   };
 
   // Return a function that extracts just the URL to maintain compatibility
-  return (params) => generateURL(params).url;
+  return (params) => {
+    const payload = getPayload?.();
+    if (params.data?.cloudinary?.public_id || !payload || !params.collection) {
+      return generateURL(params).url;
+    }
+
+    // Without stored metadata the public ID can't be trusted, so find the document
+    return findFileDocument(payload, params.collection, params.filename).then(
+      (doc) =>
+        generateURL({
+          ...params,
+          data: doc ? { ...params.data, ...doc } : params.data,
+        }).url,
+    );
+  };
 };
@@ -1,9 +1,27 @@
 import type { HandleDelete } from "@payloadcms/plugin-cloud-storage/types";
-import type { v2 as cloudinaryType } from "cloudinary";
+import type { CollectionConfig } from "payload";
+import type { CloudinaryClient } from "./client";
 
-import type { CloudinaryMetadata } from "./types";
+import type {
+  CloudinaryFocalPointOptions,
+  CloudinaryImageSizesOptions,
+  CloudinaryMetadata,
+  CloudinaryResourceTypeMapping,
+  CloudinaryTrashOptions,
+  PublicIDOptions,
+} from "./types";
 
 import path from "path";
+import {
+  findImageSizeByFilename,
+  getImageSizes,
+  getImageSizeTransformationString,
+} from "./imageSizes";
+import { isReplacedAsset } from "./collections/Media/hooks";
+import { resolvePublicID } from "./publicID";
+import { detectResourceType } from "./resourceType";
+import { getFocus } from "./focalPoint";
+import { trashAsset } from "./trash";
 
 type HandleDeleteArgs = Parameters<HandleDelete>[0];
 type DocWithCloudinaryMetadata = HandleDeleteArgs["doc"] & {
@@ -11,34 +29,116 @@ type DocWithCloudinaryMetadata = HandleDeleteArgs["doc"] & {
 };
 
 interface Args {
-  cloudinary: typeof cloudinaryType;
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
   folder: string;
+  prefix?: string;
+  publicID?: PublicIDOptions;
+  imageSizes?: CloudinaryImageSizesOptions;
+  focalPoint?: CloudinaryFocalPointOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  trash?: CloudinaryTrashOptions;
+  supportDynamicFolderMode?: boolean;
 }
 
 export const getHandleDelete =
-  ({ cloudinary, folder }: Args): HandleDelete =>
-  async ({ filename, doc }) => {
-    const filePath = path.posix.join(folder, filename);
+  ({
+    cloudinary,
+    collection,
+    folder,
+    prefix,
+    publicID,
+    imageSizes: imageSizesOptions,
+    focalPoint,
+    resourceTypes,
+    trash,
+    supportDynamicFolderMode,
+  }: Args): HandleDelete =>
+  async ({ filename, doc, req }) => {
     const docWithCloudinary = doc as DocWithCloudinaryMetadata;
+    // Replaced files are deleted for good, deleted documents are trashed
+    const isTrashed = !!trash && !req.file;
+
+    // Trashed assets keep their derivatives until they are destroyed
+    if (isTrashed && findImageSizeByFilename(doc.sizes, filename)) {
+      return;
+    }
+
+    // Image sizes are derivatives of the original asset, not separate assets
+    const sizeName = findImageSizeByFilename(doc.sizes, filename);
+    if (sizeName && imageSizesOptions?.enabled !== false) {
+      const size = getImageSizes(collection).find((s) => s.name === sizeName);
+      const metadata = docWithCloudinary.cloudinary;
+
+      if (size && metadata?.public_id) {
+        try {
+          await cloudinary.deleteDerived(
+            [metadata.public_id],
+            getImageSizeTransformationString(
+              size,
+              metadata.format,
+              getFocus({ focalX: doc.focalX, focalY: doc.focalY }, focalPoint),
+            ),
+            {
+              resource_type: metadata.resource_type || "image",
+              type: metadata.type || "upload",
+              invalidate: true,
+            },
+          );
+        } catch (error) {
+          console.error("Error deleting derived image size:", error);
+        }
+      }
+      return;
+    }
+
+    // The asset is being overwritten with a new version, not removed
+    if (isReplacedAsset(doc)) {
+      return;
+    }
 
     try {
-      // Extract public_id without file extension
-      let publicId = filePath.replace(/\.[^/.]+$/, "");
-
-      // Try to get metadata from doc if available (from Cloudinary plugin)
-      let resourceType: string = "image";
-      let deliveryType: string = "upload";
-
-      if (docWithCloudinary.cloudinary) {
-        // Use stored Cloudinary metadata if available
-        publicId = docWithCloudinary.cloudinary.public_id || publicId;
-        resourceType =
-          docWithCloudinary.cloudinary.resource_type || resourceType;
-        deliveryType = docWithCloudinary.cloudinary.type || deliveryType;
+      // Use the stored public ID, or the one the upload would have generated
+      const publicId = resolvePublicID({
+        filename,
+        doc: docWithCloudinary,
+        folder,
+        prefix,
+        publicID,
+        resourceTypes,
+      });
+
+      // Use stored Cloudinary metadata if available
+      const detectedResourceType = detectResourceType({
+        filename,
+        mimeType: doc.mimeType,
+        mapping: resourceTypes,
+      });
+      const resourceType =
+        docWithCloudinary.cloudinary?.resource_type ||
+        (detectedResourceType === "auto" ? "image" : detectedResourceType);
+      const deliveryType = docWithCloudinary.cloudinary?.type || "upload";
+
+      // A failed move leaves the asset in place rather than destroying it
+      if (isTrashed) {
+        await trashAsset({
+          cloudinary,
+          collection,
+          doc,
+          metadata: {
+            public_id: publicId,
+            resource_type: resourceType,
+            type: deliveryType,
+          },
+          options: trash,
+          supportDynamicFolderMode,
+          req,
+        });
+        return;
       }
 
       // Attempt deletion with proper parameters
-      const result = await cloudinary.uploader.destroy(publicId, {
+      const result = await cloudinary.destroy(publicId, {
         resource_type: resourceType,
         type: deliveryType,
         invalidate: true, // Invalidate CDN cache
@@ -1,28 +1,89 @@
 import type { HandleUpload } from "@payloadcms/plugin-cloud-storage/types";
-import type { CollectionConfig } from "payload";
-import type { v2 as cloudinaryType } from "cloudinary";
-import type { UploadApiOptions } from "cloudinary";
-import type { CloudinaryVersioningOptions, PublicIDOptions } from "./types";
+import type { CollectionConfig, ImageSize, JsonObject } from "payload";
+import type { UploadApiOptions, UploadApiResponse } from "cloudinary";
+import type { CloudinaryClient, CloudinaryResource } from "./client";
+import type {
+  CloudinaryAudioOptions,
+  CloudinaryAutoTaggingOptions,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryImageSizesOptions,
+  CloudinaryMetadata,
+  CloudinaryMetadataMapping,
+  CloudinaryModerationOptions,
+  CloudinaryResourceType,
+  CloudinaryResourceTypeMapping,
+  CloudinaryVersioningOptions,
+  CloudinaryUploadDefaults,
+  CloudinaryUploadLimits,
+  CloudinaryVideoOptions,
+  PublicIDOptions,
+} from "./types";
 
 import path from "path";
-import stream from "stream";
+import { ValidationError } from "payload";
 import { getResourceType } from "./utils";
+import { detectResourceType } from "./resourceType";
+import { generatePublicID, getFolderPath } from "./publicID";
+import {
+  findImageSizeByFilename,
+  getImageSizes,
+  getImageSizeTransformationString,
+  getSizesData,
+} from "./imageSizes";
+import { getVersionEntry, pruneVersionHistory } from "./versions";
+import { getDeferredDelete, getReplacedAsset } from "./collections/Media/hooks";
+import { getFocus } from "./focalPoint";
+import { getVideoEager, getVideoMetadata } from "./video";
+import { getAudioEager, getAudioMetadata, isAudio } from "./audio";
+import {
+  getLimitErrors,
+  getMetadataFacts,
+  hasLimits,
+  rollbackUpload,
+} from "./limits";
+import { DEFAULT_MODERATION_KIND, getModerationStatus } from "./moderation";
+import {
+  getAssetMetadataUploadOptions,
+  getStoredAssetMetadata,
+  resolveAssetMetadata,
+} from "./assetMetadata";
+import type { AssetMetadata } from "./assetMetadata";
+import {
+  getAltTextData,
+  getAutoTaggingMetadata,
+  getAutoTaggingParams,
+} from "./autoTagging";
 
 interface Args {
-  cloudinary: typeof cloudinaryType;
+  cloudinary: CloudinaryClient;
   collection: CollectionConfig;
   folder: string;
   prefix?: string;
   versioning?: CloudinaryVersioningOptions;
   publicID?: PublicIDOptions;
+  imageSizes?: CloudinaryImageSizesOptions;
+  deliveryType?: CloudinaryDeliveryType;
+  notificationURL?: string;
+  uploadDefaults?: CloudinaryUploadDefaults;
+  focalPoint?: CloudinaryFocalPointOptions;
+  video?: CloudinaryVideoOptions;
+  audio?: CloudinaryAudioOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  limits?: CloudinaryUploadLimits;
+  moderation?: CloudinaryModerationOptions;
+  metadataMapping?: CloudinaryMetadataMapping;
+  autoTagging?: CloudinaryAutoTaggingOptions;
 }
 
-const getUploadOptions = (
+export const getUploadOptions = (
   filename: string,
   versioning?: CloudinaryVersioningOptions,
+  resourceType: CloudinaryResourceType | "auto" = getResourceType(
+    path.extname(filename).toLowerCase(),
+  ),
 ): UploadApiOptions => {
   const ext = path.extname(filename).toLowerCase();
-  const resourceType = getResourceType(ext);
   const baseOptions: UploadApiOptions = {
     resource_type: resourceType,
     use_filename: true,
@@ -31,12 +92,26 @@ const getUploadOptions = (
     ...(versioning?.autoInvalidate && { invalidate: true }),
   };
 
+  // Audio is stored as-is, transcoded on delivery
+  if (isAudio(filename)) {
+    return {
+      ...baseOptions,
+      chunk_size: 6000000,
+    };
+  }
+
   switch (resourceType) {
     case "video":
       return {
         ...baseOptions,
         chunk_size: 6000000,
-        eager: [{ format: ext.slice(1), quality: "auto" }],
+        // Misnamed files keep their container
+        eager: [
+          {
+            ...(getResourceType(ext) === "video" && { format: ext.slice(1) }),
+            quality: "auto",
+          },
+        ],
         eager_async: true,
       };
     case "image":
@@ -69,81 +144,6 @@ const getUploadOptions = (
   }
 };
 
-/**
- * Sanitize a string to be used as part of a public ID
- * @param str String to sanitize
- * @returns Sanitized string
- */
-const sanitizeForPublicID = (str: string): string => {
-  return str
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, "-") // Replace any character that's not a letter or number with a hyphen
-    .replace(/-+/g, "-") // Replace consecutive hyphens with a single hyphen
-    .replace(/^-|-$/g, ""); // Remove leading or trailing hyphens
-};
-
-/**
- * Generate a public ID based on the publicID options
- * @param filename Original filename
- * @param folderPath Folder path
- * @param publicIDOptions Public ID options
- * @returns Generated public ID
- */
-const generatePublicID = (
-  filename: string,
-  folderPath: string,
-  publicIDOptions?: PublicIDOptions,
-): string => {
-  // If a custom generator function is provided, use it
-  if (publicIDOptions?.generatePublicID) {
-    return publicIDOptions.generatePublicID(
-      filename,
-      path.dirname(folderPath),
-      path.basename(folderPath),
-    );
-  }
-
-  // Get file extension and resource type
-  const ext = path.extname(filename).toLowerCase();
-  const resourceType = getResourceType(ext);
-  const isRawFile = resourceType === "raw";
-
-  // If publicID is disabled, just return the path with sanitization
-  if (publicIDOptions?.enabled === false) {
-    const filenameWithoutExt = path.basename(filename, path.extname(filename));
-    const sanitizedFilename = sanitizeForPublicID(filenameWithoutExt);
-    // For raw files, preserve the extension
-    const finalFilename = isRawFile
-      ? `${sanitizedFilename}${ext}`
-      : sanitizedFilename;
-    return path.posix.join(folderPath, finalFilename);
-  }
-
-  // Default behavior - use filename (if enabled) and make it unique (if enabled)
-  const useFilename = publicIDOptions?.useFilename !== false;
-  const uniqueFilename = publicIDOptions?.uniqueFilename !== false;
-
-  const timestamp = uniqueFilename ? `_${Date.now()}` : "";
-
-  if (useFilename) {
-    // Use the filename as part of the public ID (sanitized)
-    const filenameWithoutExt = path.basename(filename, path.extname(filename));
-    const sanitizedFilename = sanitizeForPublicID(filenameWithoutExt);
-    // For raw files, preserve the extension
-    const finalFilename = isRawFile
-      ? `${sanitizedFilename}${timestamp}${ext}`
-      : `${sanitizedFilename}${timestamp}`;
-    return path.posix.join(folderPath, finalFilename);
-  }
-
-  // Generate a timestamp-based ID if not using filename
-  // For raw files, we need to preserve the extension even with generated IDs
-  const finalFilename = isRawFile
-    ? `media${timestamp}${ext}`
-    : `media${timestamp}`;
-  return path.posix.join(folderPath, finalFilename);
-};
-
 /**
  * Check if a file is a PDF based on its file extension
  */
@@ -157,12 +157,12 @@ const isPDF = (filename: string): boolean => {
  * This is a separate function to avoid async/await linter issues
  */
 const getPDFPageCount = async (
-  cloudinary: typeof cloudinaryType,
+  cloudinary: CloudinaryClient,
   publicId: string,
   defaultCount = 1,
 ): Promise<number> => {
   try {
-    const pdfInfo = await cloudinary.api.resource(publicId, {
+    const pdfInfo = await cloudinary.resource(publicId, {
       resource_type: "raw",
       pages: true,
     });
@@ -177,131 +177,432 @@ const getPDFPageCount = async (
   return defaultCount;
 };
 
+type UploadParamsArgs = Omit<
+  Args,
+  "cloudinary" | "collection" | "imageSizes" | "limits" | "metadataMapping"
+> & {
+  filename: string;
+  data: { prefix?: string | null };
+  imageSizes: ImageSize[];
+  imageSizesOptions?: CloudinaryImageSizesOptions;
+  /**
+   * MIME type declared by the upload
+   */
+  mimeType?: string;
+  /**
+   * Bytes of the file, to sniff its type
+   */
+  buffer?: Buffer;
+  /**
+   * Existing asset to overwrite, so Cloudinary records a new version
+   */
+  replace?: CloudinaryMetadata;
+  /**
+   * Tags, context and structured metadata mapped from the document
+   */
+  assetMetadata?: AssetMetadata;
+};
+
+export type UploadParams = {
+  uploadOptions: UploadApiOptions;
+  folderPath: string;
+  isEagerSizes: boolean;
+  eagerSizesOffset: number;
+};
+
+/**
+ * Build the Cloudinary upload options for a file
+ * Shared by server-side uploads and signed client uploads
+ */
+export const getUploadParams = ({
+  filename,
+  data,
+  folder,
+  prefix = "",
+  versioning,
+  publicID,
+  imageSizes,
+  imageSizesOptions,
+  deliveryType = "upload",
+  notificationURL,
+  uploadDefaults,
+  focalPoint,
+  video,
+  audio,
+  resourceTypes,
+  moderation,
+  autoTagging,
+  mimeType,
+  buffer,
+  replace,
+  assetMetadata,
+}: UploadParamsArgs): UploadParams => {
+  // The document prefix takes precedence over the collection prefix
+  const location = { folder, prefix: data.prefix || prefix };
+  const folderPath = getFolderPath(location);
+  const resourceType = detectResourceType({
+    filename,
+    mimeType,
+    buffer,
+    mapping: resourceTypes,
+  });
+
+  // Generate the public ID based on options
+  const publicIdValue = generatePublicID(
+    filename,
+    location,
+    publicID,
+    resourceType,
+  );
+
+  // Basic upload options
+  const uploadOptions: UploadApiOptions = {
+    ...getUploadOptions(filename, versioning, resourceType),
+    ...uploadDefaults,
+    ...getAssetMetadataUploadOptions(assetMetadata, uploadDefaults),
+    public_id: publicIdValue,
+    // folder: path.dirname(publicIdValue), // Extract folder from public_id
+    use_filename: publicID?.useFilename !== false,
+    unique_filename: publicID?.uniqueFilename !== false,
+    asset_folder: folderPath,
+    type: deliveryType,
+    // Let the webhook endpoint know when async derivatives are ready
+    ...(notificationURL && {
+      notification_url: notificationURL,
+      eager_notification_url: notificationURL,
+    }),
+    // Overwriting keeps the public ID and backs up the previous bytes
+    ...(replace && {
+      public_id: replace.public_id,
+      unique_filename: false,
+      overwrite: true,
+      invalidate: true,
+      type: replace.type || deliveryType,
+    }),
+    // Every uploaded version is queued for moderation
+    ...(moderation && {
+      moderation: moderation.kind || DEFAULT_MODERATION_KIND,
+    }),
+    // Labels and captions are only requested for images
+    ...(autoTagging &&
+      resourceType === "image" &&
+      getAutoTaggingParams(autoTagging)),
+  };
+
+  // Request image sizes as eager derivatives, after the default eager entries
+  const ext = path.extname(filename).toLowerCase();
+  const eagerSizesOffset = Array.isArray(uploadOptions.eager)
+    ? uploadOptions.eager.length
+    : 0;
+  const isEagerSizes =
+    !!imageSizesOptions?.eager &&
+    imageSizes.length > 0 &&
+    resourceType === "image";
+
+  if (isEagerSizes) {
+    uploadOptions.eager = [
+      ...(Array.isArray(uploadOptions.eager) ? uploadOptions.eager : []),
+      ...imageSizes.map((size) => ({
+        raw_transformation: getImageSizeTransformationString(
+          size,
+          ext.slice(1),
+          getFocus(data, focalPoint),
+        ),
+      })),
+    ];
+    // Wait for the derivatives so their dimensions can be stored
+    uploadOptions.eager_async = false;
+  }
+
+  // The waveform of audio files is prepared in the background
+  if (isAudio(filename)) {
+    const eager = getAudioEager(audio);
+    if (eager.length > 0) {
+      uploadOptions.eager = [
+        ...(Array.isArray(uploadOptions.eager) ? uploadOptions.eager : []),
+        ...eager,
+      ];
+      uploadOptions.eager_async = true;
+    }
+  }
+
+  // Streaming manifests and the poster frame are prepared in the background
+  else if (video && uploadOptions.resource_type === "video") {
+    uploadOptions.eager = [
+      ...(Array.isArray(uploadOptions.eager) ? uploadOptions.eager : []),
+      ...getVideoEager(video),
+    ];
+    uploadOptions.eager_async = true;
+  }
+
+  return { uploadOptions, folderPath, isEagerSizes, eagerSizesOffset };
+};
+
+/**
+ * The fields of an upload response stored on the document
+ * Client uploads read them back from the Admin API
+ */
+export type UploadResult = Omit<CloudinaryResource, "context" | "metadata"> & {
+  format: string;
+  type: string;
+  context?: object;
+  metadata?: object;
+  version_id?: string;
+  eager?: UploadApiResponse["eager"];
+  moderation?: UploadApiResponse["moderation"];
+};
+
+type ApplyUploadResultArgs = Pick<
+  UploadParams,
+  "isEagerSizes" | "eagerSizesOffset"
+> & {
+  cloudinary: CloudinaryClient;
+  data: JsonObject;
+  filename: string;
+  result: UploadResult;
+  imageSizes: ImageSize[];
+  versioning?: CloudinaryVersioningOptions;
+  focalPoint?: CloudinaryFocalPointOptions;
+  video?: CloudinaryVideoOptions;
+  audio?: CloudinaryAudioOptions;
+  moderation?: CloudinaryModerationOptions;
+  autoTagging?: CloudinaryAutoTaggingOptions;
+};
+
+/**
+ * Write the Cloudinary metadata of an upload result into the document data
+ * Shared by server-side uploads and signed client uploads
+ */
+export const applyUploadResult = async ({
+  cloudinary,
+  data,
+  filename,
+  result,
+  imageSizes,
+  isEagerSizes,
+  eagerSizesOffset,
+  versioning,
+  focalPoint,
+  video,
+  audio,
+  moderation,
+  autoTagging,
+}: ApplyUploadResultArgs): Promise<void> => {
+  const isPDFFile = isPDF(filename);
+  const baseMetadata = {
+    public_id: result.public_id,
+    asset_id: result.asset_id,
+    resource_type: result.resource_type,
+    format: result.format,
+    secure_url: result.secure_url,
+    bytes: result.bytes,
+    created_at: result.created_at,
+    // Ensure version is always stored as string to match field type
+    version: result.version ? String(result.version) : result.version,
+    version_id: result.version_id,
+    type: result.type,
+    ...(moderation && {
+      moderation_status: getModerationStatus(result.moderation),
+    }),
+    ...getStoredAssetMetadata(result),
+  };
+
+  // Add metadata based on resource type
+  let typeSpecificMetadata = {};
+
+  if (
+    result.resource_type === "video" &&
+    (result.is_audio || isAudio(filename))
+  ) {
+    typeSpecificMetadata = {
+      ...getAudioMetadata(cloudinary, { ...baseMetadata, ...result }, audio),
+      eager: result.eager,
+    };
+  } else if (result.resource_type === "video") {
+    typeSpecificMetadata = {
+      duration: result.duration,
+      width: result.width,
+      height: result.height,
+      eager: result.eager,
+      ...(video && getVideoMetadata(cloudinary, baseMetadata, video)),
+    };
+  } else if (result.resource_type === "image") {
+    const analysis = autoTagging
+      ? getAutoTaggingMetadata(result.info)
+      : undefined;
+    typeSpecificMetadata = {
+      width: result.width,
+      height: result.height,
+      ...analysis,
+    };
+
+    // Suggested captions stand in for missing alt text
+    if (autoTagging) {
+      Object.assign(data, getAltTextData(data, autoTagging, analysis?.caption));
+    }
+
+    // Populate Payload's sizes from Cloudinary derivatives
+    if (imageSizes.length > 0) {
+      data.sizes = getSizesData({
+        cloudName: cloudinary.cloudName,
+        filename,
+        imageSizes,
+        result,
+        eager: isEagerSizes ? result.eager?.slice(eagerSizesOffset) : undefined,
+        existingSizes: data.sizes,
+        focus: getFocus(data, focalPoint),
+      });
+    }
+  } else if (isPDFFile) {
+    // Handle PDF specific metadata
+    let pageCount = 1;
+
+    // Try to get page count from result, otherwise call the API
+    if (result.pages) {
+      pageCount = result.pages;
+    } else {
+      // Use the separate async function to get page count
+      pageCount = await getPDFPageCount(cloudinary, result.public_id);
+    }
+
+    typeSpecificMetadata = {
+      pages: pageCount,
+      selected_page: 1, // Default to first page for thumbnails
+      // Generate a thumbnail URL for the PDF
+      thumbnail_url: `https://res.cloudinary.com/${cloudinary.cloudName}/image/upload/pg_1,f_jpg,q_auto/${result.public_id}.pdf`,
+    };
+  }
+
+  // Combine base and type-specific metadata
+  data.cloudinary = {
+    ...baseMetadata,
+    ...typeSpecificMetadata,
+  };
+
+  // If versioning and history storage is enabled, store version info
+  if (versioning?.enabled && versioning?.storeHistory) {
+    const entry = getVersionEntry(result);
+    data.versions = pruneVersionHistory(
+      [...(data.versions || []), entry],
+      versioning.retention,
+      entry.version,
+    );
+  }
+};
+
 export const getHandleUpload =
   ({
     cloudinary,
+    collection,
     folder,
     prefix = "",
     versioning,
     publicID,
+    imageSizes: imageSizesOptions,
+    deliveryType = "upload",
+    notificationURL,
+    uploadDefaults,
+    focalPoint,
+    video,
+    audio,
+    resourceTypes,
+    limits,
+    moderation,
+    metadataMapping,
+    autoTagging,
   }: Args): HandleUpload =>
-  async ({ data, file }) => {
-    // Construct the folder path with proper handling of prefix
-    const folderPath = data.prefix
-      ? path.posix.join(folder, data.prefix)
-      : path.posix.join(folder, prefix);
-
-    // Generate the public ID based on options
-    const publicIdValue = generatePublicID(file.filename, folderPath, publicID);
-
-    // Basic upload options
-    const uploadOptions: UploadApiOptions = {
-      ...getUploadOptions(file.filename, versioning),
-      public_id: publicIdValue,
-      // folder: path.dirname(publicIdValue), // Extract folder from public_id
-      use_filename: publicID?.useFilename !== false,
-      unique_filename: publicID?.uniqueFilename !== false,
-      asset_folder: folderPath,
-    };
+  async ({ data, file, req }) => {
+    const imageSizes =
+      imageSizesOptions?.enabled !== false ? getImageSizes(collection) : [];
 
-    return new Promise((resolve, reject) => {
-      try {
-        const uploadStream = cloudinary.uploader.upload_stream(
-          uploadOptions,
-          async (error, result) => {
-            if (error) {
-              console.error("Error uploading to Cloudinary:", error);
-              reject(error);
-              return;
-            }
-
-            if (result) {
-              const isPDFFile = isPDF(file.filename);
-              const baseMetadata = {
-                public_id: result.public_id,
-                resource_type: result.resource_type,
-                format: result.format,
-                secure_url: result.secure_url,
-                bytes: result.bytes,
-                created_at: result.created_at,
-                // Ensure version is always stored as string to match field type
-                version: result.version
-                  ? String(result.version)
-                  : result.version,
-                version_id: result.version_id,
-              };
-
-              // Add metadata based on resource type
-              let typeSpecificMetadata = {};
-
-              if (result.resource_type === "video") {
-                typeSpecificMetadata = {
-                  duration: result.duration,
-                  width: result.width,
-                  height: result.height,
-                  eager: result.eager,
-                };
-              } else if (result.resource_type === "image") {
-                typeSpecificMetadata = {
-                  width: result.width,
-                  height: result.height,
-                };
-              } else if (isPDFFile) {
-                // Handle PDF specific metadata
-                let pageCount = 1;
-
-                // Try to get page count from result, otherwise call the API
-                if (result.pages) {
-                  pageCount = result.pages;
-                } else {
-                  // Use the separate async function to get page count
-                  pageCount = await getPDFPageCount(
-                    cloudinary,
-                    result.public_id,
-                  );
-                }
-
-                typeSpecificMetadata = {
-                  pages: pageCount,
-                  selected_page: 1, // Default to first page for thumbnails
-                  // Generate a thumbnail URL for the PDF
-                  thumbnail_url: `https://res.cloudinary.com/${cloudinary.config().cloud_name}/image/upload/pg_1,f_jpg,q_auto/${result.public_id}.pdf`,
-                };
-              }
-
-              // Combine base and type-specific metadata
-              data.cloudinary = {
-                ...baseMetadata,
-                ...typeSpecificMetadata,
-              };
-
-              // If versioning and history storage is enabled, store version info
-              if (versioning?.enabled && versioning?.storeHistory) {
-                data.versions = data.versions || [];
-                data.versions.push({
-                  // Store version as a string to match the field type expectation
-                  version: result.version ? String(result.version) : "",
-                  version_id: result.version_id || "",
-                  created_at: result.created_at || new Date().toISOString(),
-                  secure_url: result.secure_url || "",
-                });
-              }
-            }
-
-            resolve(data);
-          },
-        );
-
-        // Create readable stream from buffer or file
-        const readableStream = new stream.Readable();
-        readableStream.push(file.buffer);
-        readableStream.push(null);
-
-        // Pipe the readable stream to the upload stream
-        readableStream.pipe(uploadStream);
-      } catch (error) {
-        console.error("Error in upload process:", error);
-        reject(error);
-      }
+    // Resized copies generated by Payload are derived from the original instead
+    if (
+      imageSizes.length > 0 &&
+      file.filename !== data.filename &&
+      findImageSizeByFilename(data.sizes, file.filename)
+    ) {
+      return data;
+    }
+
+    const replace = getReplacedAsset(data);
+    const previous = getDeferredDelete(data);
+    const { uploadOptions, isEagerSizes, eagerSizesOffset } = getUploadParams({
+      filename: file.filename,
+      data,
+      folder,
+      prefix,
+      versioning,
+      publicID,
+      imageSizes,
+      imageSizesOptions,
+      deliveryType,
+      notificationURL,
+      uploadDefaults,
+      focalPoint,
+      video,
+      audio,
+      resourceTypes,
+      moderation,
+      autoTagging,
+      mimeType: file.mimeType,
+      buffer: file.buffer,
+      replace,
+      assetMetadata: await resolveAssetMetadata(metadataMapping, data, req),
+    });
+
+    let result: UploadApiResponse;
+    try {
+      result = await cloudinary.upload(file.buffer, uploadOptions);
+    } catch (error) {
+      console.error("Error uploading to Cloudinary:", error);
+      throw error;
+    }
+
+    await applyUploadResult({
+      cloudinary,
+      data,
+      filename: file.filename,
+      result,
+      imageSizes,
+      isEagerSizes,
+      eagerSizesOffset,
+      versioning,
+      focalPoint,
+      video,
+      audio,
+      moderation,
+      autoTagging,
     });
+
+    // Durations, page counts and exact dimensions are only known afterwards
+    if (hasLimits(limits)) {
+      const errors = getLimitErrors(getMetadataFacts(data.cloudinary), limits);
+      if (errors.length > 0) {
+        // A public ID without uniqueness may have overwritten the previous
+        const overwritten =
+          replace ||
+          (previous?.public_id === result.public_id ? previous : undefined);
+        await rollbackUpload(req, cloudinary, result, overwritten);
+        throw new ValidationError({ collection: collection.slug, errors });
+      }
+    }
+
+    // The previous asset was kept until the new one passed the limits
+    if (previous && previous.public_id !== result.public_id) {
+      await cloudinary
+        .destroy(previous.public_id, {
+          resource_type: previous.resource_type,
+          type: previous.type || "upload",
+          invalidate: true,
+        })
+        .catch((error) => {
+          req.payload.logger.error({
+            error,
+            message: "Error deleting replaced Cloudinary asset",
+            public_id: previous.public_id,
+          });
+        });
+    }
+
+    return data;
   };
@@ -0,0 +1,330 @@
+import type { CollectionConfig, ImageSize } from "payload";
+import type { CloudinaryFocus } from "./focalPoint";
+import type { CloudinaryTransformation } from "./types";
+
+import path from "path";
+import { applyFocus } from "./focalPoint";
+import { serializeTransformation } from "./transformations";
+
+export type CloudinarySizeData = {
+  filename: string;
+  url: string;
+  width: number | null;
+  height: number | null;
+  filesize: number | null;
+  mimeType: string;
+};
+
+// sharp `fit` values mapped to the closest Cloudinary crop mode
+const FIT_TO_CROP: Record<string, CloudinaryTransformation["crop"]> = {
+  cover: "fill",
+  contain: "pad",
+  fill: "scale",
+  inside: "fit",
+  outside: "mfit",
+};
+
+// sharp `position` values mapped to Cloudinary gravity
+const POSITION_TO_GRAVITY: Record<string, string> = {
+  centre: "center",
+  center: "center",
+  top: "north",
+  "right top": "north_east",
+  right: "east",
+  "right bottom": "south_east",
+  bottom: "south",
+  "left bottom": "south_west",
+  left: "west",
+  "left top": "north_west",
+  north: "north",
+  northeast: "north_east",
+  east: "east",
+  southeast: "south_east",
+  south: "south",
+  southwest: "south_west",
+  west: "west",
+  northwest: "north_west",
+  entropy: "auto",
+  attention: "auto",
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  tiff: "image/tiff",
+};
+
+/**
+ * Get the image sizes configured on an upload collection
+ */
+export const getImageSizes = (collection?: CollectionConfig): ImageSize[] =>
+  (typeof collection?.upload === "object" && collection.upload.imageSizes) ||
+  [];
+
+/**
+ * Translate a Payload image size into a Cloudinary transformation
+ * @param size Image size from the collection upload config
+ * @param format Format of the original asset (used when the size sets none)
+ * @param focus Gravity of the document's cropped renditions
+ */
+export const getImageSizeTransformation = (
+  size: ImageSize,
+  format: string,
+  focus?: CloudinaryFocus,
+): CloudinaryTransformation => {
+  const crop = FIT_TO_CROP[size.fit || "cover"] || "fill";
+  const position = size.position ?? size.crop;
+  const gravity =
+    typeof position === "string" ? POSITION_TO_GRAVITY[position] : undefined;
+  const hasBothDimensions = !!size.width && !!size.height;
+  const formatOptions = size.formatOptions?.options as
+    { quality?: number } | undefined;
+  const quality = formatOptions?.quality;
+
+  // Cloudinary expects `jpg` rather than `jpeg`
+  const sizeFormat = size.formatOptions?.format;
+  const targetFormat = (
+    typeof sizeFormat === "string" ? sizeFormat : format
+  ).toLowerCase();
+
+  return applyFocus(
+    {
+      // A single dimension keeps the aspect ratio, which is a plain scale
+      crop: hasBothDimensions ? crop : "scale",
+      ...(hasBothDimensions && gravity && crop === "fill" && { gravity }),
+      ...(size.width && { width: size.width }),
+      ...(size.height && { height: size.height }),
+      ...(crop === "pad" &&
+        hasBothDimensions &&
+        typeof size.background === "string" && {
+          background: size.background.replace(/^#/, "rgb:"),
+        }),
+      format: targetFormat === "jpeg" ? "jpg" : targetFormat,
+      quality: typeof quality === "number" ? quality : "auto",
+    },
+    focus,
+  );
+};
+
+/**
+ * Serialized transformation string for an image size
+ */
+export const getImageSizeTransformationString = (
+  size: ImageSize,
+  format: string,
+  focus?: CloudinaryFocus,
+): string =>
+  serializeTransformation(getImageSizeTransformation(size, format, focus), {
+    target: "image",
+  });
+
+/**
+ * Delivery URL of the derivative Cloudinary produces for an image size
+ * @param cloudName Cloudinary cloud name
+ * @param size Image size from the collection upload config
+ * @param asset Public ID, format and version of the original image
+ * @param focus Gravity of the document's cropped renditions
+ */
+export const getImageSizeURL = (
+  cloudName: string,
+  size: ImageSize,
+  asset: { public_id: string; format: string; version?: number | string },
+  focus?: CloudinaryFocus,
+): string => {
+  const transformation = getImageSizeTransformation(size, asset.format, focus);
+  const segment = serializeTransformation(transformation, { target: "image" });
+  const versionSegment = asset.version ? `/v${asset.version}` : "";
+  return `https://res.cloudinary.com/${cloudName}/image/upload/${segment}${versionSegment}/${asset.public_id}.${transformation.format}`;
+};
+
+/**
+ * Compute the dimensions Cloudinary will produce for a size
+ * Used when the derivative is generated lazily on first request
+ */
+export const getDerivedDimensions = (
+  size: ImageSize,
+  original: { width?: number; height?: number },
+): { width: number | null; height: number | null } => {
+  const { width: originalWidth, height: originalHeight } = original;
+
+  if (size.width && size.height) {
+    const crop = FIT_TO_CROP[size.fit || "cover"] || "fill";
+    if (
+      (crop === "fit" || crop === "mfit") &&
+      originalWidth &&
+      originalHeight
+    ) {
+      const pick = crop === "fit" ? Math.min : Math.max;
+      const ratio = pick(
+        size.width / originalWidth,
+        size.height / originalHeight,
+      );
+      return {
+        width: Math.round(originalWidth * ratio),
+        height: Math.round(originalHeight * ratio),
+      };
+    }
+    return { width: size.width, height: size.height };
+  }
+
+  if (!originalWidth || !originalHeight) {
+    return { width: size.width || null, height: size.height || null };
+  }
+
+  if (size.width) {
+    return {
+      width: size.width,
+      height: Math.round((originalHeight * size.width) / originalWidth),
+    };
+  }
+
+  if (size.height) {
+    return {
+      width: Math.round((originalWidth * size.height) / originalHeight),
+      height: size.height,
+    };
+  }
+
+  return { width: originalWidth, height: originalHeight };
+};
+
+/**
+ * Build a filename for a size, following Payload's `name-WxH.ext` convention
+ */
+export const getImageSizeFilename = (
+  filename: string,
+  size: ImageSize,
+  dimensions: { width?: number | null; height?: number | null },
+  format: string,
+): string => {
+  const base = path.basename(filename, path.extname(filename));
+  const suffix =
+    dimensions.width && dimensions.height
+      ? `${dimensions.width}x${dimensions.height}`
+      : size.name;
+  return `${base}-${suffix}.${format}`;
+};
+
+/**
+ * MIME type for a delivery format
+ */
+export const getMimeType = (format: string, fallback = "image/jpeg") =>
+  MIME_TYPES[format.toLowerCase()] || fallback;
+
+/**
+ * Find which image size (if any) a filename belongs to
+ */
+export const findImageSizeByFilename = (
+  sizes: Record<string, { filename?: string | null } | null> | undefined,
+  filename: string,
+): string | undefined =>
+  Object.entries(sizes || {}).find(
+    ([, sizeData]) => sizeData?.filename === filename,
+  )?.[0];
+
+type SizesDataArgs = {
+  cloudName: string;
+  filename: string;
+  imageSizes: ImageSize[];
+  result: {
+    public_id: string;
+    format: string;
+    version?: number | string;
+    width?: number;
+    height?: number;
+    secure_url: string;
+    bytes?: number;
+  };
+  /**
+   * Eager results for the sizes, in the same order as imageSizes
+   */
+  eager?: {
+    secure_url?: string;
+    width?: number;
+    height?: number;
+    bytes?: number;
+    format?: string;
+  }[];
+  existingSizes?: Record<string, { filename?: string | null } | null>;
+  focus?: CloudinaryFocus;
+};
+
+/**
+ * Build the `sizes` data Payload expects from a Cloudinary upload result
+ * Eager results are used when available, otherwise the derivative is
+ * described from the transformation and generated on first request
+ */
+export const getSizesData = ({
+  cloudName,
+  filename,
+  imageSizes,
+  result,
+  eager,
+  existingSizes,
+  focus,
+}: SizesDataArgs): Record<string, CloudinarySizeData | null> =>
+  imageSizes.reduce(
+    (acc, size, index) => {
+      const original = { width: result.width, height: result.height };
+      const isSmaller =
+        !!original.width &&
+        !!original.height &&
+        original.width < (size.width || 0) &&
+        original.height < (size.height || 0);
+
+      // Mirror Payload: smaller images either skip the size or reuse the original
+      if (isSmaller && size.withoutEnlargement === undefined) {
+        return { ...acc, [size.name]: null };
+      }
+
+      if (isSmaller && size.withoutEnlargement === true) {
+        return {
+          ...acc,
+          [size.name]: {
+            filename:
+              existingSizes?.[size.name]?.filename ||
+              getImageSizeFilename(filename, size, original, result.format),
+            url: result.secure_url,
+            width: original.width ?? null,
+            height: original.height ?? null,
+            filesize: result.bytes ?? null,
+            mimeType: getMimeType(result.format),
+          },
+        };
+      }
+
+      const transformation = getImageSizeTransformation(
+        size,
+        result.format,
+        focus,
+      );
+      const format = transformation.format || result.format;
+      const eagerResult = eager?.[index];
+      const dimensions = eagerResult?.width
+        ? { width: eagerResult.width, height: eagerResult.height ?? null }
+        : getDerivedDimensions(size, original);
+
+      return {
+        ...acc,
+        [size.name]: {
+          filename:
+            existingSizes?.[size.name]?.filename ||
+            getImageSizeFilename(filename, size, dimensions, format),
+          url:
+            eagerResult?.secure_url ||
+            getImageSizeURL(cloudName, size, result, focus),
+          width: dimensions.width,
+          height: dimensions.height,
+          filesize: eagerResult?.bytes ?? null,
+          mimeType: getMimeType(format),
+        },
+      };
+    },
+    {} as Record<string, CloudinarySizeData | null>,
+  );
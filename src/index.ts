@@ -4,25 +4,111 @@ import type {
   CollectionOptions,
   GeneratedAdapter,
 } from "@payloadcms/plugin-cloud-storage/types";
-import type { Config } from "payload";
+import type { BasePayload, Config } from "payload";
 
-import { v2 as cloudinary } from "cloudinary";
 import { cloudStoragePlugin } from "@payloadcms/plugin-cloud-storage";
 import path from "path";
 
+import { createCloudinaryClient } from "./client";
+import type { CloudinaryClient } from "./client";
 import { getGenerateURL } from "./generateURL";
 import { getHandleDelete } from "./handleDelete";
 import { getHandleUpload } from "./handleUpload";
 import { getHandler } from "./staticHandler";
 import { generateMediaCollection } from "./collections/Media";
 import { generateCustomFields } from "./collections/Media/fields/customFields";
-import { cloudinaryFields } from "./collections/Media/fields/cloudinary";
+import {
+  cloudinaryFields,
+  withURLReadAccess,
+} from "./collections/Media/fields/cloudinary";
 import { versionFields } from "./collections/Media/fields/versions";
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+import { getClientUploadEndpoints } from "./clientUploads";
+import { getCollectionOptions } from "./utils";
+import { getRestoreVersionEndpoint } from "./versions";
+import { getNotificationSignature, getWebhookEndpoint } from "./webhooks";
+import { getSyncAssets, getSyncEndpoint } from "./sync";
+import { getReconcileAssets, getReconcileTask } from "./reconcile";
+import { getResponsiveField, getResponsiveImage } from "./responsive";
+import { getFocus, serializeFocus } from "./focalPoint";
+import type { CloudinaryFocus } from "./focalPoint";
+import { getCaptionsField, getVideoMetadata } from "./video";
+import { getWaveformURL, isAudioDocument } from "./audio";
+import {
+  getModerationEndpoint,
+  getModerationField,
+  getModerationReadAccess,
+  isModerationBlocked,
+} from "./moderation";
+import {
+  getAssetMetadataHook,
+  getPullAssetMetadata,
+  getPullMetadataEndpoint,
+} from "./assetMetadata";
+import type { CloudinaryPullMetadataArgs } from "./assetMetadata";
+import { getAutoTaggingEndpoint, getAutoTaggingField } from "./autoTagging";
+import {
+  DEFAULT_TRASH_TAG,
+  getEmptyTrashTask,
+  getRestoreTrash,
+  getTrashCollection,
+} from "./trash";
+import type { CloudinaryRestoreTrashArgs } from "./trash";
+import type {
+  CloudinaryPictureSource,
+  CloudinaryResponsiveImage,
+} from "./responsive";
+import type {
+  CloudinaryReconcileArgs,
+  CloudinaryReconcileReport,
+} from "./reconcile";
+import type {
+  CloudinarySyncArgs,
+  CloudinarySyncResult,
+  CloudinarySyncSource,
+} from "./sync";
+import {
+  getCheckLimits,
+  getRenameAssetHooks,
+  getReplaceVersion,
+  requireFile,
+} from "./collections/Media/hooks";
+import { hasLimits } from "./limits";
+import {
+  serializeTransformation,
+  validateTransformationPresets,
+} from "./transformations";
 import type {
   CloudinaryStorageOptions,
   CloudinaryStoragePlugin,
   CloudinaryMetadata,
   CloudinaryAdapter,
+  CloudinaryAudioOptions,
+  CloudinaryAutoTaggingOptions,
+  CloudinaryClientUploadsOptions,
+  CloudinaryCollectionOptions,
+  CloudinaryConfig,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryMappedValue,
+  CloudinaryMetadataMapping,
+  CloudinaryModerationOptions,
+  CloudinaryReconcileOptions,
+  CloudinaryRenameOptions,
+  CloudinaryResourceType,
+  CloudinaryResourceTypeMapping,
+  CloudinaryResponsiveOptions,
+  CloudinaryStaticHandlerMode,
+  CloudinarySyncOptions,
+  CloudinaryTransformation,
+  CloudinaryTransformationPresets,
+  CloudinaryTrashOptions,
+  CloudinaryUploadDefaults,
+  CloudinaryUploadLimits,
+  CloudinaryVersionEntry,
+  CloudinaryVersioningOptions,
+  CloudinaryVideoOptions,
+  CloudinaryWebhooksOptions,
   PayloadDocument,
 } from "./types";
 
@@ -31,8 +117,179 @@ export type {
   CloudinaryStoragePlugin,
   CloudinaryMetadata,
   CloudinaryAdapter,
+  CloudinaryAudioOptions,
+  CloudinaryAutoTaggingOptions,
+  CloudinaryClientUploadsOptions,
+  CloudinaryCollectionOptions,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryMappedValue,
+  CloudinaryMetadataMapping,
+  CloudinaryModerationOptions,
+  CloudinaryReconcileOptions,
+  CloudinaryRenameOptions,
+  CloudinaryResourceType,
+  CloudinaryResourceTypeMapping,
+  CloudinaryResponsiveOptions,
+  CloudinaryStaticHandlerMode,
+  CloudinarySyncOptions,
+  CloudinaryTransformation,
+  CloudinaryTransformationPresets,
+  CloudinaryTrashOptions,
+  CloudinaryUploadDefaults,
+  CloudinaryUploadLimits,
+  CloudinaryVersionEntry,
+  CloudinaryVersioningOptions,
+  CloudinaryVideoOptions,
+  CloudinaryWebhooksOptions,
+  CloudinaryPullMetadataArgs,
+  CloudinaryRestoreTrashArgs,
+  CloudinarySyncArgs,
+  CloudinarySyncResult,
+  CloudinarySyncSource,
+  CloudinaryReconcileArgs,
+  CloudinaryReconcileReport,
+  CloudinaryClient,
+  CloudinaryPictureSource,
+  CloudinaryResponsiveImage,
+};
+export {
+  createCloudinaryClient,
+  generateMediaCollection,
+  getGenerateURL,
+  getNotificationSignature,
+  serializeTransformation,
+};
+
+// Sync runners of the collections with `sync` enabled
+const syncRunners = new Map<string, ReturnType<typeof getSyncAssets>>();
+
+/**
+ * Import existing Cloudinary assets into a collection without re-uploading
+ * Requires the `sync` option; useful from scripts run with `payload run`
+ */
+export const syncCloudinaryAssets = (
+  payload: BasePayload,
+  args: CloudinarySyncArgs,
+): Promise<CloudinarySyncResult> => {
+  const syncAssets = syncRunners.get(args.collection);
+  if (!syncAssets) {
+    throw new Error(
+      `Cloudinary sync is not enabled for the "${args.collection}" collection`,
+    );
+  }
+  return syncAssets(payload, args);
+};
+
+// Metadata pullers of the collections with a `metadataMapping`
+const metadataPullers = new Map<
+  string,
+  ReturnType<typeof getPullAssetMetadata>
+>();
+
+/**
+ * Pull tags, context and structured metadata edited in Cloudinary into a
+ * document and its mapped fields
+ * Requires the collection's `metadataMapping`
+ */
+export const pullCloudinaryMetadata = (
+  payload: BasePayload,
+  args: CloudinaryPullMetadataArgs,
+) => {
+  const pullAssetMetadata = metadataPullers.get(args.collection);
+  if (!pullAssetMetadata) {
+    throw new Error(
+      `Cloudinary metadata mapping is not enabled for the "${args.collection}" collection`,
+    );
+  }
+  return pullAssetMetadata(payload, args);
+};
+
+// Restores trashed documents when `trash` is enabled
+let trashRestorer: ReturnType<typeof getRestoreTrash> | undefined;
+
+/**
+ * Restore a trashed asset and create its document again
+ * Requires the `trash` option
+ */
+export const restoreCloudinaryTrash = (
+  payload: BasePayload,
+  args: CloudinaryRestoreTrashArgs,
+): ReturnType<ReturnType<typeof getRestoreTrash>> => {
+  if (!trashRestorer) {
+    throw new Error("The Cloudinary trash is not enabled");
+  }
+  return trashRestorer(payload, args);
+};
+
+// Responsive image builders of the configured collections
+const responsiveImages = new Map<
+  string,
+  ReturnType<typeof getResponsiveImage>
+>();
+
+/**
+ * Build `srcset`, `sizes` and `<picture>` sources for a media document
+ * Returns null for documents that aren't images or PDFs
+ */
+export const getCloudinaryResponsiveImage = (
+  doc: PayloadDocument,
+  {
+    collection,
+    ...options
+  }: CloudinaryResponsiveOptions & { collection: string },
+): CloudinaryResponsiveImage | null => {
+  const responsiveImage = responsiveImages.get(collection);
+  if (!responsiveImage) {
+    throw new Error(
+      `The "${collection}" collection doesn't use Cloudinary storage`,
+    );
+  }
+  return responsiveImage(doc, options);
+};
+
+// Cloudinary account and folder a collection stores its files in
+type CollectionAccount = {
+  cloudinary: CloudinaryClient;
+  config: CloudinaryConfig;
+  folder: string;
+  uploadDefaults?: CloudinaryUploadDefaults;
+};
+
+/**
+ * Resolve the account of every configured collection
+ * Collections with their own `config` get their own client, so accounts
+ * never share (or overwrite) each other's credentials
+ */
+const getCollectionAccounts = (
+  options: CloudinaryStorageOptions,
+): Record<string, CollectionAccount> => {
+  const defaultClient =
+    options.client || createCloudinaryClient(options.config);
+
+  return Object.fromEntries(
+    Object.keys(options.collections).map((slug) => {
+      const { config, folder, uploadOptions } = getCollectionOptions(
+        options.collections,
+        slug,
+      );
+      const uploadDefaults =
+        options.uploadOptions || uploadOptions
+          ? { ...options.uploadOptions, ...uploadOptions }
+          : undefined;
+
+      return [
+        slug,
+        {
+          cloudinary: config ? createCloudinaryClient(config) : defaultClient,
+          config: config || options.config,
+          folder: folder || options.folder || "payload-media",
+          uploadDefaults,
+        },
+      ];
+    }),
+  );
 };
-export { generateMediaCollection };
 
 // Function to check if a filename is a PDF by extension
 const isPDF = (filename?: string): boolean => {
@@ -40,14 +297,55 @@ const isPDF = (filename?: string): boolean => {
   return path.extname(filename).toLowerCase() === ".pdf";
 };
 
+// Cropped first-page rendition used for PDF admin thumbnails
+const getPDFThumbnailTransformation = (
+  page: number,
+  focus?: CloudinaryFocus,
+): string => {
+  const gravity = serializeFocus(focus);
+  return `pg_${page},w_300,h_400,c_fill${gravity ? `,${gravity}` : ""},q_auto,f_jpg`;
+};
+
+// adminThumbnail generator for authenticated and private assets
+const signedThumbnailGenerator = (
+  cloudinary: CloudinaryClient,
+  doc: PayloadDocument,
+  expiresIn?: number,
+  focus?: CloudinaryFocus,
+): string => {
+  if (!doc.cloudinary?.public_id) return "";
+  const { public_id, format, resource_type, type } = doc.cloudinary;
+
+  if (isPDF(doc.filename)) {
+    const page = doc.cloudinary.selected_page || 1;
+    return getSignedURL(cloudinary, {
+      public_id: public_id.replace(/\.pdf$/, ""),
+      format: "pdf",
+      resource_type: "image",
+      type: type as CloudinaryDeliveryType,
+      transformation: getPDFThumbnailTransformation(page, focus),
+      expiresIn,
+    });
+  }
+
+  return getSignedURL(cloudinary, {
+    public_id,
+    format: resource_type === "raw" ? "" : format,
+    resource_type,
+    type: type as CloudinaryDeliveryType,
+    expiresIn,
+  });
+};
+
 // Default adminThumbnail generator for PDFs
 const defaultPDFThumbnailGenerator = (
   doc: PayloadDocument,
   cloudName: string,
+  focus?: CloudinaryFocus,
 ): string => {
   if (!doc.cloudinary?.public_id) return "";
   const page = doc.cloudinary?.selected_page || 1;
-  return `https://res.cloudinary.com/${cloudName}/image/upload/pg_${page},w_300,h_400,c_fill,q_auto,f_jpg/${doc.cloudinary.public_id}.pdf`;
+  return `https://res.cloudinary.com/${cloudName}/image/upload/${getPDFThumbnailTransformation(page, focus)}/${doc.cloudinary.public_id}.pdf`;
 };
 
 export const cloudinaryStorage: CloudinaryStoragePlugin =
@@ -57,112 +355,522 @@ export const cloudinaryStorage: CloudinaryStoragePlugin =
       return incomingConfig;
     }
 
-    const adapter = cloudinaryStorageInternal(cloudinaryOptions);
+    // Fail fast on misconfigured presets instead of emitting broken URLs
+    validateTransformationPresets(cloudinaryOptions.transformations);
+
+    const accounts = getCollectionAccounts(cloudinaryOptions);
+
+    // Captured on init so URL generation can look up documents
+    let payloadInstance: BasePayload | undefined;
+    const adapter = cloudinaryStorageInternal(
+      cloudinaryOptions,
+      accounts,
+      () => payloadInstance,
+    );
+    const webhooks =
+      cloudinaryOptions.webhooks === true
+        ? {}
+        : cloudinaryOptions.webhooks || undefined;
+    const reconcile =
+      cloudinaryOptions.reconcile === true
+        ? {}
+        : cloudinaryOptions.reconcile || undefined;
+    const focalPoint =
+      cloudinaryOptions.focalPoint === true
+        ? {}
+        : cloudinaryOptions.focalPoint || undefined;
+    const video =
+      cloudinaryOptions.video === true
+        ? {}
+        : cloudinaryOptions.video || undefined;
+    const rename =
+      cloudinaryOptions.rename === true
+        ? {}
+        : cloudinaryOptions.rename || undefined;
+    const trash =
+      cloudinaryOptions.trash === true
+        ? {}
+        : cloudinaryOptions.trash || undefined;
+    const getClient = (slug: string) => accounts[slug]?.cloudinary;
+    if (trash) {
+      trashRestorer = getRestoreTrash({
+        getClient,
+        options: trash,
+        supportDynamicFolderMode: cloudinaryOptions.supportDynamicFolderMode,
+      });
+    }
 
     // Add adapter to each collection option object
     const collectionsWithAdapter: CloudStoragePluginOptions["collections"] =
-      Object.entries(cloudinaryOptions.collections).reduce(
-        (acc, [slug, collOptions]) => ({
-          ...acc,
-          [slug]: {
-            ...(collOptions === true ? {} : collOptions),
-            adapter,
-          },
-        }),
+      Object.keys(cloudinaryOptions.collections).reduce(
+        (acc, slug) => {
+          // Cloudinary-specific options are consumed by the adapter
+          const {
+            deliveryType,
+            signedURLExpiresIn,
+            cacheControl,
+            staticHandlerMode,
+            config,
+            folder,
+            uploadOptions,
+            limits,
+            moderation,
+            metadataMapping,
+            autoTagging,
+            ...storageOptions
+          } = getCollectionOptions(cloudinaryOptions.collections, slug);
+
+          return {
+            ...acc,
+            [slug]: {
+              ...storageOptions,
+              adapter,
+            },
+          };
+        },
         {} as Record<string, CollectionOptions>,
       );
 
     // Create a new config with our modifications
-    const config = {
+    const config: Config = {
       ...incomingConfig,
-      collections: (incomingConfig.collections || []).map((collection) => {
-        // Check if this collection is one we should apply Cloudinary to
-        const shouldApplyCloudinary =
-          !!collectionsWithAdapter[
-            collection.slug as keyof typeof collectionsWithAdapter
-          ];
+      onInit: async (payload) => {
+        payloadInstance = payload;
+        await incomingConfig.onInit?.(payload);
+      },
+      // Cloudinary notifications may concern any configured collection
+      endpoints: webhooks
+        ? [
+            ...(incomingConfig.endpoints || []),
+            getWebhookEndpoint({
+              accounts: getWebhookAccounts(accounts),
+              options: webhooks,
+            }),
+          ]
+        : incomingConfig.endpoints,
+      // Reconciliation and the trash span every configured collection
+      jobs:
+        reconcile || trash
+          ? {
+              ...incomingConfig.jobs,
+              tasks: [
+                ...(incomingConfig.jobs?.tasks || []),
+                ...(reconcile
+                  ? [
+                      getReconcileTask({
+                        options: reconcile,
+                        reconcilers: getReconcileGroups(
+                          cloudinaryOptions,
+                          accounts,
+                        ).map((group) =>
+                          getReconcileAssets({
+                            ...group,
+                            publicID: cloudinaryOptions.publicID,
+                            resourceTypes: cloudinaryOptions.resourceTypes,
+                            trashTag: trash
+                              ? trash.tag || DEFAULT_TRASH_TAG
+                              : undefined,
+                          }),
+                        ),
+                      }),
+                    ]
+                  : []),
+                ...(trash ? [getEmptyTrashTask({ options: trash })] : []),
+              ],
+            }
+          : incomingConfig.jobs,
+      collections: [
+        ...(incomingConfig.collections || []).map((collection) => {
+          // Check if this collection is one we should apply Cloudinary to
+          const shouldApplyCloudinary =
+            !!collectionsWithAdapter[
+              collection.slug as keyof typeof collectionsWithAdapter
+            ];
+
+          if (!shouldApplyCloudinary) {
+            return collection;
+          }
+
+          // First, modify the upload configuration to disable local storage
+          const modifiedCollection = {
+            ...collection,
+            upload: {
+              ...(typeof collection.upload === "object"
+                ? collection.upload
+                : {}),
+              disableLocalStorage: true,
+            },
+          };
+
+          const collectionOptions = getCollectionOptions(
+            cloudinaryOptions.collections,
+            collection.slug,
+          );
+          const { cloudinary, config, folder, uploadDefaults } =
+            accounts[collection.slug];
+          const moderation =
+            collectionOptions.moderation === true
+              ? {}
+              : collectionOptions.moderation || undefined;
+          const autoTagging =
+            collectionOptions.autoTagging === true
+              ? {}
+              : collectionOptions.autoTagging || undefined;
+
+          // Add PDF thumbnail support if this is an upload collection
+          if (modifiedCollection.upload) {
+            const uploadConfig = modifiedCollection.upload;
+
+            // If no adminThumbnail specified, or we specifically enable PDF thumbnails
+            if (
+              !uploadConfig.adminThumbnail ||
+              cloudinaryOptions.enablePDFThumbnails !== false
+            ) {
+              modifiedCollection.upload = {
+                ...uploadConfig,
+                // Set custom adminThumbnail function that handles PDFs
+                adminThumbnail: ({ doc }) => {
+                  const document = doc as PayloadDocument;
+                  const focus = getFocus(document, focalPoint);
+
+                  // Withheld assets are represented by the placeholder
+                  if (isModerationBlocked(document.cloudinary, moderation)) {
+                    return moderation?.placeholderURL || "";
+                  }
+
+                  // Audio files are represented by their waveform
+                  const isAudioFile = isAudioDocument(document);
+                  if (isAudioFile && document.cloudinary?.public_id) {
+                    const waveformURL =
+                      document.cloudinary.waveform_url ||
+                      getWaveformURL(
+                        cloudinary,
+                        document.cloudinary,
+                        cloudinaryOptions.audio,
+                      );
+                    if (waveformURL) return waveformURL;
+                  }
+
+                  // Videos are represented by their poster frame
+                  if (
+                    video &&
+                    !isAudioFile &&
+                    document.cloudinary?.resource_type === "video"
+                  ) {
+                    const posterURL =
+                      document.cloudinary.poster_url ||
+                      getVideoMetadata(cloudinary, document.cloudinary, video)
+                        .poster_url;
+                    if (posterURL) return posterURL;
+                  }
+
+                  // Restricted assets are only reachable through signed URLs
+                  if (isRestrictedDeliveryType(document.cloudinary?.type)) {
+                    return signedThumbnailGenerator(
+                      cloudinary,
+                      document,
+                      collectionOptions.signedURLExpiresIn,
+                      focus,
+                    );
+                  }
+
+                  // For PDFs, return a Cloudinary-generated thumbnail
+                  if (
+                    isPDF(document.filename) &&
+                    document.cloudinary?.public_id
+                  ) {
+                    return defaultPDFThumbnailGenerator(
+                      document,
+                      config.cloud_name,
+                      focus,
+                    );
+                  }
+
+                  // For other types, use existing adminThumbnail if defined
+                  if (typeof uploadConfig.adminThumbnail === "function") {
+                    return uploadConfig.adminThumbnail({ doc });
+                  }
 
-        if (!shouldApplyCloudinary) {
-          return collection;
-        }
+                  if (
+                    typeof uploadConfig.adminThumbnail === "string" &&
+                    document.sizes?.[uploadConfig.adminThumbnail]
+                  ) {
+                    return document.sizes[uploadConfig.adminThumbnail].url;
+                  }
 
-        // First, modify the upload configuration to disable local storage
-        const modifiedCollection = {
-          ...collection,
-          upload: {
-            ...(typeof collection.upload === "object" ? collection.upload : {}),
-            disableLocalStorage: true,
-          },
-        };
+                  // Default to secure_url from Cloudinary
+                  return document.cloudinary?.secure_url || "";
+                },
+              };
+            }
+          }
+
+          // Register signed direct-upload endpoints
+          if (cloudinaryOptions.clientUploads) {
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              ...getClientUploadEndpoints({
+                cloudinary,
+                collection,
+                config,
+                folder,
+                prefix: collectionOptions.prefix,
+                versioning: cloudinaryOptions.versioning,
+                publicID: cloudinaryOptions.publicID,
+                imageSizes: cloudinaryOptions.imageSizes,
+                deliveryType: collectionOptions.deliveryType,
+                notificationURL: webhooks?.notificationURL,
+                uploadDefaults,
+                focalPoint,
+                video,
+                audio: cloudinaryOptions.audio,
+                resourceTypes: cloudinaryOptions.resourceTypes,
+                limits: collectionOptions.limits,
+                moderation,
+                autoTagging,
+                options:
+                  cloudinaryOptions.clientUploads === true
+                    ? {}
+                    : cloudinaryOptions.clientUploads,
+              }),
+            ];
+          }
 
-        // Add PDF thumbnail support if this is an upload collection
-        if (modifiedCollection.upload) {
-          const uploadConfig = modifiedCollection.upload;
+          // Register the import endpoint for existing Cloudinary assets
+          if (cloudinaryOptions.sync) {
+            const syncAssets = getSyncAssets({
+              cloudinary,
+              folder,
+              imageSizes: cloudinaryOptions.imageSizes,
+              focalPoint,
+              video,
+              audio: cloudinaryOptions.audio,
+            });
+            syncRunners.set(collection.slug, syncAssets);
 
-          // If no adminThumbnail specified, or we specifically enable PDF thumbnails
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              getSyncEndpoint({
+                collection,
+                folder,
+                options:
+                  cloudinaryOptions.sync === true ? {} : cloudinaryOptions.sync,
+                syncAssets,
+              }),
+            ];
+          }
+
+          // Client uploads, imports and restores create documents from
+          // existing assets; every other create still needs a file
           if (
-            !uploadConfig.adminThumbnail ||
-            cloudinaryOptions.enablePDFThumbnails !== false
+            cloudinaryOptions.clientUploads ||
+            cloudinaryOptions.sync ||
+            trash
           ) {
+            const upload = modifiedCollection.upload;
+            if (
+              typeof upload !== "object" ||
+              upload.filesRequiredOnCreate !== false
+            ) {
+              modifiedCollection.hooks = {
+                ...modifiedCollection.hooks,
+                beforeValidate: [
+                  requireFile,
+                  ...(modifiedCollection.hooks?.beforeValidate || []),
+                ],
+              };
+            }
             modifiedCollection.upload = {
-              ...uploadConfig,
-              // Set custom adminThumbnail function that handles PDFs
-              adminThumbnail: ({ doc }) => {
-                const document = doc as PayloadDocument;
-
-                // For PDFs, return a Cloudinary-generated thumbnail
-                if (
-                  isPDF(document.filename) &&
-                  document.cloudinary?.public_id
-                ) {
-                  return defaultPDFThumbnailGenerator(
-                    document,
-                    cloudinaryOptions.config.cloud_name,
-                  );
-                }
-
-                // For other types, use existing adminThumbnail if defined
-                if (typeof uploadConfig.adminThumbnail === "function") {
-                  return uploadConfig.adminThumbnail({ doc });
-                }
-
-                if (
-                  typeof uploadConfig.adminThumbnail === "string" &&
-                  document.sizes?.[uploadConfig.adminThumbnail]
-                ) {
-                  return document.sizes[uploadConfig.adminThumbnail].url;
-                }
-
-                // Default to secure_url from Cloudinary
-                return document.cloudinary?.secure_url || "";
-              },
+              ...modifiedCollection.upload,
+              filesRequiredOnCreate: false,
             };
           }
-        }
-
-        // Generate all fields we need to add
-        const customFields = generateCustomFields(
-          cloudinaryOptions.customFields || [],
-        );
-        const versionFieldsToAdd =
-          cloudinaryOptions.versioning?.enabled &&
-          cloudinaryOptions.versioning?.storeHistory
-            ? versionFields
-            : [];
-
-        // Make sure fields is an array
-        modifiedCollection.fields = modifiedCollection.fields || [];
-
-        // Add our fields to the collection
-        modifiedCollection.fields = [
-          ...modifiedCollection.fields,
-          ...customFields,
-          ...cloudinaryFields, // Always add Cloudinary fields
-          ...versionFieldsToAdd,
-        ];
-
-        return modifiedCollection;
-      }),
+
+          // Files are checked against the limits before the cloud storage
+          // plugin's hook deletes the previous ones
+          if (hasLimits(collectionOptions.limits)) {
+            modifiedCollection.hooks = {
+              ...modifiedCollection.hooks,
+              beforeChange: [
+                getCheckLimits(collectionOptions.limits),
+                ...(modifiedCollection.hooks?.beforeChange || []),
+              ],
+            };
+          }
+
+          // Replaced files overwrite the same public ID
+          const overwriteOnReplace =
+            !!cloudinaryOptions.versioning?.enabled ||
+            cloudinaryOptions.overwriteOnReplace !== false;
+          if (overwriteOnReplace || hasLimits(collectionOptions.limits)) {
+            modifiedCollection.hooks = {
+              ...modifiedCollection.hooks,
+              beforeChange: [
+                ...(modifiedCollection.hooks?.beforeChange || []),
+                getReplaceVersion({
+                  resourceTypes: cloudinaryOptions.resourceTypes,
+                  limits: collectionOptions.limits,
+                  versioning: cloudinaryOptions.versioning,
+                  overwrite: overwriteOnReplace,
+                }),
+              ],
+            };
+          }
+
+          // Overwritten versions can be restored
+          if (cloudinaryOptions.versioning?.enabled) {
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              getRestoreVersionEndpoint({
+                cloudinary,
+                collection,
+                versioning: cloudinaryOptions.versioning,
+              }),
+            ];
+          }
+
+          // Assets follow their document when the prefix or filename changes
+          if (rename) {
+            const renameHooks = getRenameAssetHooks({
+              cloudinary,
+              folder,
+              prefix: collectionOptions.prefix,
+              publicID: cloudinaryOptions.publicID,
+              supportDynamicFolderMode:
+                cloudinaryOptions.supportDynamicFolderMode,
+              options: rename,
+            });
+            modifiedCollection.hooks = {
+              ...modifiedCollection.hooks,
+              beforeChange: [
+                ...(modifiedCollection.hooks?.beforeChange || []),
+                renameHooks.beforeChange,
+              ],
+              afterChange: [
+                ...(modifiedCollection.hooks?.afterChange || []),
+                renameHooks.afterChange,
+              ],
+              afterError: [
+                ...(modifiedCollection.hooks?.afterError || []),
+                renameHooks.afterError,
+              ],
+            };
+          }
+
+          // Moderators approve or reject assets from the admin
+          if (moderation) {
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              getModerationEndpoint({
+                cloudinary,
+                collection,
+                options: moderation,
+              }),
+            ];
+          }
+
+          // Editors re-run the analysis of existing images from the admin
+          if (autoTagging) {
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              getAutoTaggingEndpoint({
+                cloudinary,
+                collection,
+                options: autoTagging,
+              }),
+            ];
+          }
+
+          // Mapped fields reach Cloudinary whenever the document changes
+          const { metadataMapping } = collectionOptions;
+          if (metadataMapping) {
+            const pullAssetMetadata = getPullAssetMetadata({
+              cloudinary,
+              collection,
+              mapping: metadataMapping,
+              uploadDefaults,
+            });
+            metadataPullers.set(collection.slug, pullAssetMetadata);
+
+            modifiedCollection.hooks = {
+              ...modifiedCollection.hooks,
+              afterChange: [
+                ...(modifiedCollection.hooks?.afterChange || []),
+                getAssetMetadataHook({ cloudinary, mapping: metadataMapping }),
+              ],
+            };
+            modifiedCollection.endpoints = [
+              ...(modifiedCollection.endpoints || []),
+              getPullMetadataEndpoint({
+                collection,
+                mapping: metadataMapping,
+                pullAssetMetadata,
+              }),
+            ];
+          }
+
+          // Responsive images follow the collection's delivery settings
+          const responsiveImage = getResponsiveImage({
+            cloudinary,
+            config,
+            transformations: cloudinaryOptions.transformations,
+            deliveryType: collectionOptions.deliveryType,
+            focalPoint,
+            defaults:
+              typeof cloudinaryOptions.responsive === "object"
+                ? cloudinaryOptions.responsive
+                : undefined,
+            moderation,
+          });
+          responsiveImages.set(collection.slug, responsiveImage);
+
+          // Generate all fields we need to add
+          const customFields = generateCustomFields(
+            cloudinaryOptions.customFields || [],
+          );
+          const versionFieldsToAdd =
+            cloudinaryOptions.versioning?.enabled &&
+            cloudinaryOptions.versioning?.storeHistory
+              ? versionFields
+              : [];
+
+          // Make sure fields is an array
+          modifiedCollection.fields = modifiedCollection.fields || [];
+
+          // Add our fields to the collection
+          modifiedCollection.fields = [
+            ...modifiedCollection.fields,
+            ...customFields,
+            // Always add Cloudinary fields
+            ...(moderation
+              ? withURLReadAccess(
+                  getModerationReadAccess(moderation, collection),
+                )
+              : cloudinaryFields),
+            ...versionFieldsToAdd,
+            ...(cloudinaryOptions.responsive
+              ? [getResponsiveField(responsiveImage)]
+              : []),
+            ...(video?.captions
+              ? [getCaptionsField(video.captions.relationTo)]
+              : []),
+            ...(moderation ? [getModerationField()] : []),
+            ...(autoTagging ? [getAutoTaggingField()] : []),
+          ];
+
+          return modifiedCollection;
+        }),
+        // Trashed assets are listed, restored and destroyed from here
+        ...(trash && trashRestorer
+          ? [
+              getTrashCollection({
+                getClient,
+                options: trash,
+                restoreTrash: trashRestorer,
+              }),
+            ]
+          : []),
+      ],
     };
 
     return cloudStoragePlugin({
@@ -170,28 +878,136 @@ export const cloudinaryStorage: CloudinaryStoragePlugin =
     })(config);
   };
 
-function cloudinaryStorageInternal({
-  config,
-  folder = "payload-media",
-  versioning = {
-    enabled: false,
-    autoInvalidate: false,
-    storeHistory: false,
-  },
-  publicID,
-}: CloudinaryStorageOptions): Adapter {
+/**
+ * Webhook accounts with the collections whose assets they store
+ */
+const getWebhookAccounts = (
+  accounts: Record<string, CollectionAccount>,
+): { config: CloudinaryConfig; collections: string[] }[] => {
+  const bySecret = new Map<
+    string,
+    { config: CloudinaryConfig; collections: string[] }
+  >();
+  for (const [slug, { config }] of Object.entries(accounts)) {
+    const account = bySecret.get(config.api_secret);
+    if (account) {
+      account.collections.push(slug);
+    } else {
+      bySecret.set(config.api_secret, { config, collections: [slug] });
+    }
+  }
+  return [...bySecret.values()];
+};
+
+/**
+ * Collections grouped by the Cloudinary account and folder they store in
+ * Each group is reconciled on its own
+ */
+const getReconcileGroups = (
+  options: CloudinaryStorageOptions,
+  accounts: Record<string, CollectionAccount>,
+): {
+  cloudinary: CloudinaryClient;
+  folder: string;
+  collections: { slug: string; prefix?: string }[];
+}[] => {
+  const groups = new Map<
+    string,
+    ReturnType<typeof getReconcileGroups>[number]
+  >();
+  for (const [slug, { cloudinary, config, folder }] of Object.entries(
+    accounts,
+  )) {
+    const key = `${config.cloud_name}/${folder}`;
+    const collection = {
+      slug,
+      prefix: getCollectionOptions(options.collections, slug).prefix,
+    };
+    const group = groups.get(key);
+    if (group) {
+      group.collections.push(collection);
+    } else {
+      groups.set(key, { cloudinary, folder, collections: [collection] });
+    }
+  }
+  return [...groups.values()];
+};
+
+function cloudinaryStorageInternal(
+  {
+    collections,
+    versioning = {
+      enabled: false,
+      autoInvalidate: false,
+      storeHistory: false,
+    },
+    publicID,
+    transformations,
+    imageSizes,
+    webhooks,
+    staticHandlerMode,
+    focalPoint: focalPointOption,
+    video: videoOption,
+    audio,
+    resourceTypes,
+    trash: trashOption,
+    supportDynamicFolderMode,
+  }: CloudinaryStorageOptions,
+  accounts: Record<string, CollectionAccount>,
+  getPayload: () => BasePayload | undefined,
+): Adapter {
   return ({ collection, prefix }): GeneratedAdapter => {
-    // Configure cloudinary
-    cloudinary.config({
-      cloud_name: config.cloud_name,
-      api_key: config.api_key,
-      api_secret: config.api_secret,
+    const { cloudinary, config, folder, uploadDefaults } =
+      accounts[collection.slug];
+    const {
+      deliveryType,
+      signedURLExpiresIn,
+      cacheControl,
+      staticHandlerMode: collectionStaticHandlerMode,
+      limits,
+      moderation: moderationOption,
+      metadataMapping,
+      autoTagging: autoTaggingOption,
+    } = getCollectionOptions(collections, collection.slug);
+    const focalPoint =
+      focalPointOption === true ? {} : focalPointOption || undefined;
+    const video = videoOption === true ? {} : videoOption || undefined;
+    const moderation =
+      moderationOption === true ? {} : moderationOption || undefined;
+    const autoTagging =
+      autoTaggingOption === true ? {} : autoTaggingOption || undefined;
+    const trash = trashOption === true ? {} : trashOption || undefined;
+
+    const generateURL = getGenerateURL({
+      cloudinary,
+      config,
+      folder,
+      versioning,
+      transformations,
+      deliveryType,
+      signedURLExpiresIn,
+      publicID,
+      focalPoint,
+      resourceTypes,
+      moderation,
+      getPayload,
     });
 
     return {
       name: "cloudinary",
-      generateURL: getGenerateURL({ config, folder, versioning }),
-      handleDelete: getHandleDelete({ cloudinary, folder }),
+      generateURL,
+      handleDelete: getHandleDelete({
+        cloudinary,
+        collection,
+        folder,
+        prefix,
+        publicID,
+        imageSizes,
+        focalPoint,
+        resourceTypes,
+        trash,
+        supportDynamicFolderMode,
+      }),
       handleUpload: getHandleUpload({
         cloudinary,
         collection,
@@ -199,8 +1015,37 @@ function cloudinaryStorageInternal({
         prefix,
         versioning,
         publicID,
+        imageSizes,
+        deliveryType,
+        notificationURL:
+          typeof webhooks === "object" ? webhooks.notificationURL : undefined,
+        uploadDefaults,
+        focalPoint,
+        video,
+        audio,
+        resourceTypes,
+        limits,
+        moderation,
+        metadataMapping,
+        autoTagging,
+      }),
+      staticHandler: getHandler({
+        cloudinary,
+        collection,
+        folder,
+        prefix,
+        publicID,
+        transformations,
+        versioning,
+        deliveryType,
+        signedURLExpiresIn,
+        cacheControl,
+        staticHandlerMode: collectionStaticHandlerMode || staticHandlerMode,
+        focalPoint,
+        resourceTypes,
+        moderation,
+        generateURL,
       }),
-      staticHandler: getHandler({ cloudinary, collection, folder }),
     };
   };
 }
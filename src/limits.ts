@@ -0,0 +1,207 @@
+import type { UploadResult } from "./handleUpload";
+import type { PayloadRequest, ValidationFieldError } from "payload";
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryMetadata, CloudinaryUploadLimits } from "./types";
+
+import path from "path";
+
+/**
+ * What is known about a file, before or after its upload
+ */
+type FileFacts = {
+  bytes?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  pages?: number;
+  format?: string;
+};
+
+// Spellings Cloudinary reports under another name
+const FORMAT_ALIASES: Record<string, string> = {
+  jpeg: "jpg",
+  jpe: "jpg",
+  jfif: "jpg",
+  tif: "tiff",
+};
+
+const normalizeFormat = (format: string): string => {
+  const lower = format.toLowerCase().replace(/^\./, "");
+  return FORMAT_ALIASES[lower] || lower;
+};
+
+const formatBytes = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${+value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Check if a collection has any limits to enforce
+ */
+export const hasLimits = (
+  limits: CloudinaryUploadLimits | undefined,
+): limits is CloudinaryUploadLimits =>
+  !!limits && Object.values(limits).some((value) => value !== undefined);
+
+/**
+ * Field errors of the limits a file violates
+ * Facts that aren't known yet are skipped
+ */
+export const getLimitErrors = (
+  facts: FileFacts,
+  limits: CloudinaryUploadLimits,
+): ValidationFieldError[] => {
+  const errors: ValidationFieldError[] = [];
+  const { bytes, width, height, duration, pages, format } = facts;
+
+  if (
+    bytes !== undefined &&
+    limits.maxBytes !== undefined &&
+    bytes > limits.maxBytes
+  ) {
+    errors.push({
+      path: "filesize",
+      message: `The file is ${formatBytes(bytes)}, larger than the maximum of ${formatBytes(limits.maxBytes)}.`,
+    });
+  }
+
+  const checkDimension = (
+    name: "width" | "height",
+    value: number | undefined,
+    min: number | undefined,
+    max: number | undefined,
+  ) => {
+    if (value === undefined) return;
+    const label = name === "width" ? "Width" : "Height";
+    if (min !== undefined && value < min) {
+      errors.push({
+        path: name,
+        message: `${label} is ${value}px, below the minimum of ${min}px.`,
+      });
+    }
+    if (max !== undefined && value > max) {
+      errors.push({
+        path: name,
+        message: `${label} is ${value}px, above the maximum of ${max}px.`,
+      });
+    }
+  };
+  checkDimension("width", width, limits.minWidth, limits.maxWidth);
+  checkDimension("height", height, limits.minHeight, limits.maxHeight);
+
+  if (
+    duration !== undefined &&
+    limits.maxDuration !== undefined &&
+    duration > limits.maxDuration
+  ) {
+    errors.push({
+      path: "cloudinary.duration",
+      message: `Duration is ${+duration.toFixed(1)}s, longer than the maximum of ${limits.maxDuration}s.`,
+    });
+  }
+
+  if (
+    pages !== undefined &&
+    limits.maxPages !== undefined &&
+    pages > limits.maxPages
+  ) {
+    errors.push({
+      path: "cloudinary.pages",
+      message: `The document has ${pages} pages, more than the maximum of ${limits.maxPages}.`,
+    });
+  }
+
+  if (format && limits.allowedFormats?.length) {
+    const allowed = limits.allowedFormats.map(normalizeFormat);
+    if (!allowed.includes(normalizeFormat(format))) {
+      errors.push({
+        path: "mimeType",
+        message: `The ${normalizeFormat(format)} format is not allowed. Allowed formats: ${allowed.join(", ")}.`,
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Facts known before uploading: the size, the extension and the dimensions
+ * Payload read from images
+ */
+export const getFileFacts = (
+  file: { filename: string; filesize?: number; buffer?: Buffer },
+  data: { width?: number | null; height?: number | null },
+): FileFacts => ({
+  bytes: file.filesize ?? file.buffer?.length,
+  width: data.width ?? undefined,
+  height: data.height ?? undefined,
+  format: path.extname(file.filename).slice(1) || undefined,
+});
+
+/**
+ * Facts Cloudinary reported about an uploaded asset, from the metadata
+ * stored for it (which includes the page count of PDFs)
+ */
+export const getMetadataFacts = (
+  metadata: Partial<CloudinaryMetadata>,
+): FileFacts => ({
+  bytes: metadata.bytes,
+  width: metadata.width || undefined,
+  height: metadata.height || undefined,
+  duration: metadata.duration,
+  pages: metadata.pages,
+  // Raw public IDs carry the extension instead of a format
+  format:
+    metadata.format ||
+    (metadata.public_id && path.extname(metadata.public_id).slice(1)) ||
+    undefined,
+});
+
+/**
+ * Undo an upload that violated the limits
+ * Overwritten assets get their previous version back, new ones are deleted.
+ * An overwritten asset without a backed up version is left as is
+ */
+export const rollbackUpload = async (
+  req: PayloadRequest,
+  cloudinary: CloudinaryClient,
+  result: Pick<UploadResult, "public_id" | "resource_type" | "type">,
+  replaced?: CloudinaryMetadata,
+): Promise<void> => {
+  const options = {
+    resource_type: result.resource_type,
+    type: result.type || "upload",
+  };
+
+  try {
+    if (replaced?.version_id) {
+      await cloudinary.restore([result.public_id], {
+        ...options,
+        versions: [replaced.version_id],
+      });
+    } else if (!replaced) {
+      await cloudinary.destroy(result.public_id, {
+        ...options,
+        invalidate: true,
+      });
+    } else {
+      // Destroying would take the original with it
+      req.payload.logger.error({
+        message: "No backup to restore the overwritten Cloudinary asset from",
+        public_id: result.public_id,
+      });
+    }
+  } catch (error) {
+    req.payload.logger.error({
+      error,
+      message: "Error rolling back Cloudinary upload",
+      public_id: result.public_id,
+    });
+  }
+};
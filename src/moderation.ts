@@ -0,0 +1,199 @@
+import type {
+  CollectionConfig,
+  Endpoint,
+  Field,
+  FieldAccess,
+  PayloadRequest,
+} from "payload";
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryMetadata, CloudinaryModerationOptions } from "./types";
+
+import { isRecord, readJSONBody } from "./utils";
+
+export const DEFAULT_MODERATION_KIND = "manual";
+
+// Statuses moderators can set through the Admin API
+const MODERATION_DECISIONS = ["approved", "rejected"] as const;
+
+type ModerationDecision = (typeof MODERATION_DECISIONS)[number];
+
+const isModerationDecision = (value: unknown): value is ModerationDecision =>
+  MODERATION_DECISIONS.some((decision) => decision === value);
+
+/**
+ * Overall status of the moderation entries of an upload response
+ * A single rejection rejects the asset; all entries must approve it
+ */
+export const getModerationStatus = (entries: unknown[] | undefined): string => {
+  // The SDK types the entries as strings, Cloudinary sends `{ kind, status }`
+  const statuses = (entries || []).map(
+    (entry) => (entry as { status?: string } | undefined)?.status,
+  );
+  if (statuses.length === 0) return "pending";
+  if (statuses.includes("rejected")) return "rejected";
+  if (statuses.every((status) => status === "approved")) return "approved";
+  return "pending";
+};
+
+/**
+ * Check if an asset must not be delivered until a moderator approves it
+ */
+export const isModerationBlocked = (
+  metadata: Pick<CloudinaryMetadata, "moderation_status"> | undefined,
+  options: CloudinaryModerationOptions | undefined,
+): boolean => {
+  const status = metadata?.moderation_status;
+  if (!options || !status || status === "approved") return false;
+  return !(status === "pending" && options.deliverPending);
+};
+
+/**
+ * Check if the current user may moderate a collection's assets
+ * Defaults to any authenticated user
+ */
+export const canModerate = async (
+  options: CloudinaryModerationOptions,
+  collection: CollectionConfig,
+  req: PayloadRequest,
+): Promise<boolean> => {
+  if (options.access) {
+    return options.access({ collectionSlug: collection.slug, req });
+  }
+  return !!req.user;
+};
+
+/**
+ * Field access withholding the delivery URLs of blocked assets from users
+ * who may not moderate them
+ */
+export const getModerationReadAccess =
+  (
+    options: CloudinaryModerationOptions,
+    collection: CollectionConfig,
+  ): FieldAccess =>
+  async ({ req, siblingData }) =>
+    !isModerationBlocked(siblingData, options) ||
+    canModerate(options, collection, req);
+
+interface EndpointArgs {
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
+  options: CloudinaryModerationOptions;
+}
+
+/**
+ * Endpoint that approves or rejects an asset
+ *
+ * `POST /:collection/:id/cloudinary-moderation` with `{ status }`, either
+ * `approved` or `rejected`
+ */
+export const getModerationEndpoint = ({
+  cloudinary,
+  collection,
+  options,
+}: EndpointArgs): Endpoint => ({
+  path: "/:id/cloudinary-moderation",
+  method: "post",
+  handler: async (req) => {
+    if (!(await canModerate(options, collection, req))) {
+      return Response.json(
+        {
+          errors: [{ message: "You are not allowed to perform this action." }],
+        },
+        { status: 403 },
+      );
+    }
+
+    const id = req.routeParams?.id as string | undefined;
+
+    const body = await readJSONBody(req);
+    const status = isRecord(body) ? body.status : undefined;
+
+    if (!id || !isModerationDecision(status)) {
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                "A document ID and a status of approved or rejected are required.",
+            },
+          ],
+        },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const doc = await req.payload.findByID({
+        collection: collection.slug,
+        id,
+        depth: 0,
+        overrideAccess: false,
+        req,
+      });
+
+      const metadata = doc.cloudinary as CloudinaryMetadata | undefined;
+      if (!metadata?.public_id) {
+        return Response.json(
+          { errors: [{ message: "This document has no Cloudinary asset." }] },
+          { status: 404 },
+        );
+      }
+
+      const result = await cloudinary.update(metadata.public_id, {
+        resource_type: metadata.resource_type,
+        type: metadata.type || "upload",
+        moderation_status: status,
+      });
+
+      const updated = await req.payload.update({
+        collection: collection.slug,
+        id,
+        data: {
+          cloudinary: {
+            ...metadata,
+            moderation_status: result.moderation_status || status,
+          },
+        },
+        overrideAccess: false,
+        req,
+      });
+
+      return Response.json({ doc: updated }, { status: 200 });
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error moderating Cloudinary asset",
+        id,
+      });
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Something went wrong.",
+            },
+          ],
+        },
+        { status: (error as { status?: number })?.status || 500 },
+      );
+    }
+  },
+});
+
+/**
+ * Sidebar approve and reject buttons of moderated documents
+ */
+export const getModerationField = (): Field => ({
+  name: "cloudinaryModeration",
+  type: "ui",
+  admin: {
+    position: "sidebar",
+    condition: (data) => !!data?.cloudinary?.moderation_status,
+    components: {
+      Field: "payload-cloudinary/client#ModerationActions",
+    },
+  },
+});
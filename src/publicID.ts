@@ -0,0 +1,195 @@
+import type { BasePayload, CollectionConfig, PayloadRequest } from "payload";
+import type {
+  CloudinaryMetadata,
+  CloudinaryResourceTypeMapping,
+  PayloadDocument,
+  PublicIDOptions,
+} from "./types";
+
+import path from "path";
+import { getResourceType } from "./utils";
+import { detectResourceType } from "./resourceType";
+import { getImageSizes } from "./imageSizes";
+
+type Location = {
+  /**
+   * Base folder of the plugin
+   */
+  folder: string;
+
+  /**
+   * Document prefix, falling back to the collection prefix
+   */
+  prefix?: string | null;
+};
+
+/**
+ * Folder an asset is uploaded to: the base folder plus the prefix
+ */
+export const getFolderPath = ({ folder, prefix }: Location): string =>
+  prefix ? path.posix.join(folder, prefix) : folder;
+
+/**
+ * Sanitize a string to be used as part of a public ID
+ * @param str String to sanitize
+ * @returns Sanitized string
+ */
+const sanitizeForPublicID = (str: string): string => {
+  return str
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "-") // Replace any character that's not a letter or number with a hyphen
+    .replace(/-+/g, "-") // Replace consecutive hyphens with a single hyphen
+    .replace(/^-|-$/g, ""); // Remove leading or trailing hyphens
+};
+
+/**
+ * Generate a public ID based on the publicID options
+ * @param filename Original filename
+ * @param location Base folder and prefix of the file
+ * @param publicIDOptions Public ID options
+ * @param resourceType Resource type of the file, raw IDs keep the extension
+ * @returns Generated public ID
+ */
+export const generatePublicID = (
+  filename: string,
+  location: Location,
+  publicIDOptions?: PublicIDOptions,
+  resourceType?: string,
+): string => {
+  // If a custom generator function is provided, use it
+  if (publicIDOptions?.generatePublicID) {
+    return publicIDOptions.generatePublicID(
+      filename,
+      location.prefix || undefined,
+      location.folder,
+    );
+  }
+
+  const folderPath = getFolderPath(location);
+
+  // Get file extension and resource type
+  const ext = path.extname(filename).toLowerCase();
+  const isRawFile = (resourceType || getResourceType(ext)) === "raw";
+
+  // If publicID is disabled, just return the path with sanitization
+  if (publicIDOptions?.enabled === false) {
+    const filenameWithoutExt = path.basename(filename, path.extname(filename));
+    const sanitizedFilename = sanitizeForPublicID(filenameWithoutExt);
+    // For raw files, preserve the extension
+    const finalFilename = isRawFile
+      ? `${sanitizedFilename}${ext}`
+      : sanitizedFilename;
+    return path.posix.join(folderPath, finalFilename);
+  }
+
+  // Default behavior - use filename (if enabled) and make it unique (if enabled)
+  const useFilename = publicIDOptions?.useFilename !== false;
+  const uniqueFilename = publicIDOptions?.uniqueFilename !== false;
+
+  const timestamp = uniqueFilename ? `_${Date.now()}` : "";
+
+  if (useFilename) {
+    // Use the filename as part of the public ID (sanitized)
+    const filenameWithoutExt = path.basename(filename, path.extname(filename));
+    const sanitizedFilename = sanitizeForPublicID(filenameWithoutExt);
+    // For raw files, preserve the extension
+    const finalFilename = isRawFile
+      ? `${sanitizedFilename}${timestamp}${ext}`
+      : `${sanitizedFilename}${timestamp}`;
+    return path.posix.join(folderPath, finalFilename);
+  }
+
+  // Generate a timestamp-based ID if not using filename
+  // For raw files, we need to preserve the extension even with generated IDs
+  const finalFilename = isRawFile
+    ? `media${timestamp}${ext}`
+    : `media${timestamp}`;
+  return path.posix.join(folderPath, finalFilename);
+};
+
+/**
+ * Check if the public ID options always produce the same ID for a filename
+ */
+const isDeterministic = (publicIDOptions?: PublicIDOptions): boolean =>
+  !publicIDOptions?.generatePublicID &&
+  (publicIDOptions?.enabled === false ||
+    publicIDOptions?.uniqueFilename === false);
+
+type ResolveArgs = Location & {
+  filename: string;
+  doc?: {
+    cloudinary?: CloudinaryMetadata;
+    prefix?: string | null;
+    mimeType?: string | null;
+  } | null;
+  publicID?: PublicIDOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+};
+
+/**
+ * Resolve the Cloudinary public ID of a file
+ *
+ * Uploads store the generated ID in `cloudinary.public_id`, which is always
+ * preferred. Without it (documents created before the metadata existed) the
+ * ID is regenerated when the options are deterministic, and otherwise
+ * derived from the folder, prefix and filename
+ */
+export const resolvePublicID = ({
+  filename,
+  doc,
+  folder,
+  prefix,
+  publicID,
+  resourceTypes,
+}: ResolveArgs): string => {
+  if (doc?.cloudinary?.public_id) {
+    return doc.cloudinary.public_id;
+  }
+
+  const location = { folder, prefix: doc?.prefix || prefix };
+
+  const resourceType = detectResourceType({
+    filename,
+    mimeType: doc?.mimeType,
+    mapping: resourceTypes,
+  });
+
+  if (isDeterministic(publicID)) {
+    return generatePublicID(filename, location, publicID, resourceType);
+  }
+
+  // Raw public IDs keep their extension
+  const ext = path.extname(filename).toLowerCase();
+  const filePath = path.posix.join(getFolderPath(location), filename);
+  return resourceType === "raw"
+    ? filePath
+    : filePath.slice(0, filePath.length - ext.length);
+};
+
+/**
+ * Find the document a file (or one of its image sizes) belongs to
+ */
+export const findFileDocument = async (
+  payload: BasePayload,
+  collection: CollectionConfig,
+  filename: string,
+  req?: PayloadRequest,
+): Promise<PayloadDocument | undefined> => {
+  const { docs } = await payload.find({
+    collection: collection.slug,
+    depth: 0,
+    limit: 1,
+    pagination: false,
+    req,
+    where: {
+      or: [
+        { filename: { equals: filename } },
+        ...getImageSizes(collection).map((size) => ({
+          [`sizes.${size.name}.filename`]: { equals: filename },
+        })),
+      ],
+    },
+  });
+
+  return docs[0] as PayloadDocument | undefined;
+};
@@ -0,0 +1,424 @@
+import type {
+  BasePayload,
+  CollectionSlug,
+  PayloadRequest,
+  TaskConfig,
+} from "payload";
+import type { CloudinaryClient, CloudinaryResource } from "./client";
+import type {
+  CloudinaryMetadata,
+  CloudinaryReconcileOptions,
+  CloudinaryResourceTypeMapping,
+  PublicIDOptions,
+} from "./types";
+
+import { resolvePublicID } from "./publicID";
+import { detectResourceType } from "./resourceType";
+import { getResourceMetadata, searchResources } from "./sync";
+
+export const DEFAULT_RECONCILE_TASK_SLUG = "cloudinaryReconcile";
+
+// Documents are read in pages of this size
+const PAGE_SIZE = 100;
+
+const DEFAULT_GRACE_PERIOD = 60;
+
+export type CloudinaryReconcileArgs = {
+  /**
+   * Link documents without (valid) metadata to the asset their public ID
+   * resolves to, when that asset is otherwise orphaned
+   * @default false
+   */
+  relink?: boolean;
+
+  /**
+   * Delete assets no document references
+   * @default false
+   */
+  deleteAssets?: boolean;
+
+  /**
+   * Delete documents whose asset no longer exists
+   * @default false
+   */
+  deleteDocuments?: boolean;
+
+  /**
+   * Minutes during which new documents and assets are left alone, as the
+   * Search API only lists assets some time after they are uploaded
+   * @default 60
+   */
+  gracePeriod?: number;
+
+  req?: PayloadRequest;
+};
+
+export type CloudinaryReconcileReport = {
+  cloudName: string;
+  folder: string;
+  checkedAt: string;
+  assets: number;
+  documents: number;
+  orphanedAssets: {
+    public_id: string;
+    resource_type: string;
+    type?: string;
+    bytes?: number;
+    created_at?: string;
+    deleted: boolean;
+  }[];
+  orphanedDocuments: {
+    collection: string;
+    id: number | string;
+    filename?: string;
+    public_id: string;
+    deleted: boolean;
+  }[];
+  relinked: {
+    collection: string;
+    id: number | string;
+    public_id: string;
+  }[];
+  errors: {
+    collection?: string;
+    id?: number | string;
+    public_id?: string;
+    message: string;
+  }[];
+};
+
+type ReconcileCollection = {
+  slug: string;
+  prefix?: string;
+};
+
+interface Args {
+  cloudinary: CloudinaryClient;
+  collections: ReconcileCollection[];
+  folder: string;
+  publicID?: PublicIDOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  /**
+   * Tag of trashed assets, which are never orphans
+   */
+  trashTag?: string;
+}
+
+type CollectionDocument = {
+  id: number | string;
+  filename?: string;
+  mimeType?: string | null;
+  prefix?: string | null;
+  cloudinary?: CloudinaryMetadata;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+type ReconcileTaskIO = {
+  input: Pick<
+    CloudinaryReconcileArgs,
+    "relink" | "deleteAssets" | "deleteDocuments" | "gracePeriod"
+  >;
+  output: { reports: CloudinaryReconcileReport[] };
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const isNotFound = (error: unknown): boolean => {
+  const { http_code, error: details } = (error || {}) as {
+    http_code?: number;
+    error?: { http_code?: number };
+  };
+  return http_code === 404 || details?.http_code === 404;
+};
+
+/**
+ * Iterate over every document of a collection, page by page
+ */
+async function* findDocuments(
+  payload: BasePayload,
+  collection: string,
+  req?: PayloadRequest,
+): AsyncGenerator<CollectionDocument> {
+  let page = 1;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const result = await payload.find({
+      collection: collection as CollectionSlug,
+      depth: 0,
+      limit: PAGE_SIZE,
+      page,
+      req,
+      sort: "id",
+    });
+
+    yield* result.docs as CollectionDocument[];
+    hasNextPage = result.hasNextPage;
+    page += 1;
+  }
+}
+
+/**
+ * Compare the assets under the plugin folder with the documents of the
+ * configured collections
+ *
+ * Assets no document references and documents whose asset is missing are
+ * reported, and optionally deleted. Documents that lack valid metadata but
+ * whose public ID resolves to an unreferenced asset can be re-linked to it
+ */
+export const getReconcileAssets =
+  ({
+    cloudinary,
+    collections,
+    folder,
+    publicID,
+    resourceTypes,
+    trashTag,
+  }: Args) =>
+  async (
+    payload: BasePayload,
+    {
+      relink = false,
+      deleteAssets = false,
+      deleteDocuments = false,
+      gracePeriod = DEFAULT_GRACE_PERIOD,
+      req,
+    }: CloudinaryReconcileArgs = {},
+  ): Promise<CloudinaryReconcileReport> => {
+    const report: CloudinaryReconcileReport = {
+      cloudName: cloudinary.cloudName,
+      folder,
+      checkedAt: new Date().toISOString(),
+      assets: 0,
+      documents: 0,
+      orphanedAssets: [],
+      orphanedDocuments: [],
+      relinked: [],
+      errors: [],
+    };
+
+    // Anything created or changed after this may not be searchable yet
+    const cutoff = Date.now() - gracePeriod * 60 * 1000;
+    const isRecent = (date?: string): boolean =>
+      !!date && Date.parse(date) > cutoff;
+
+    const assets = new Map<string, CloudinaryResource>();
+    for await (const resource of searchResources(
+      cloudinary,
+      `public_id:${folder}/*${trashTag ? ` AND -tags="${trashTag}"` : ""}`,
+    )) {
+      assets.set(resource.public_id, resource);
+    }
+    report.assets = assets.size;
+
+    const referenced = new Set<string>();
+    const candidates: {
+      collection: string;
+      doc: CollectionDocument;
+      relinkID: string;
+    }[] = [];
+
+    for (const collection of collections) {
+      for await (const doc of findDocuments(payload, collection.slug, req)) {
+        if (!doc.filename) continue;
+        report.documents += 1;
+
+        const storedID = doc.cloudinary?.public_id;
+        // Assets outside the folder (e.g. imported ones) aren't listed
+        if (storedID && !storedID.startsWith(`${folder}/`)) continue;
+        if (storedID && assets.has(storedID)) {
+          referenced.add(storedID);
+          continue;
+        }
+
+        // The ID the document would have without stored metadata
+        const relinkID = resolvePublicID({
+          filename: doc.filename,
+          doc: { prefix: doc.prefix },
+          folder,
+          prefix: collection.prefix,
+          publicID,
+          resourceTypes,
+        });
+
+        // Keep the asset of a document that may still be uploading
+        if (isRecent(doc.updatedAt || doc.createdAt)) {
+          referenced.add(storedID || relinkID);
+          continue;
+        }
+
+        // Legacy documents without metadata whose asset exists
+        if (!storedID && assets.has(relinkID)) {
+          referenced.add(relinkID);
+        }
+
+        candidates.push({ collection: collection.slug, doc, relinkID });
+      }
+    }
+
+    for (const { collection, doc, relinkID } of candidates) {
+      const asset = assets.get(relinkID);
+      const isLegacy = !doc.cloudinary?.public_id && !!asset;
+
+      // Fill in the metadata of legacy documents, and point documents whose
+      // stored asset is gone at an unreferenced asset with their public ID
+      if (asset && relink && (isLegacy || !referenced.has(relinkID))) {
+        try {
+          await payload.update({
+            collection: collection as CollectionSlug,
+            id: doc.id,
+            data: {
+              cloudinary: { ...doc.cloudinary, ...getResourceMetadata(asset) },
+            },
+            req,
+          });
+          referenced.add(relinkID);
+          report.relinked.push({ collection, id: doc.id, public_id: relinkID });
+        } catch (error) {
+          report.errors.push({
+            collection,
+            id: doc.id,
+            public_id: relinkID,
+            message: getErrorMessage(error),
+          });
+        }
+        continue;
+      }
+
+      if (isLegacy) continue;
+
+      const public_id = doc.cloudinary?.public_id || relinkID;
+
+      // Assets missing from the search may just not be indexed yet
+      const resourceType = detectResourceType({
+        filename: doc.filename || "",
+        mimeType: doc.mimeType || undefined,
+        mapping: resourceTypes,
+      });
+      try {
+        await cloudinary.resource(public_id, {
+          resource_type:
+            doc.cloudinary?.resource_type ||
+            (resourceType === "auto" ? "image" : resourceType),
+          type: doc.cloudinary?.type || "upload",
+        });
+        referenced.add(public_id);
+        continue;
+      } catch (error) {
+        if (!isNotFound(error)) {
+          report.errors.push({
+            collection,
+            id: doc.id,
+            public_id,
+            message: getErrorMessage(error),
+          });
+          continue;
+        }
+      }
+
+      let deleted = false;
+      if (deleteDocuments) {
+        try {
+          await payload.delete({
+            collection: collection as CollectionSlug,
+            id: doc.id,
+            req,
+          });
+          deleted = true;
+        } catch (error) {
+          report.errors.push({
+            collection,
+            id: doc.id,
+            public_id,
+            message: getErrorMessage(error),
+          });
+        }
+      }
+
+      report.orphanedDocuments.push({
+        collection,
+        id: doc.id,
+        filename: doc.filename,
+        public_id,
+        deleted,
+      });
+    }
+
+    for (const asset of assets.values()) {
+      if (referenced.has(asset.public_id)) continue;
+      // Its document may not have been saved yet
+      if (isRecent(asset.created_at)) continue;
+
+      let deleted = false;
+      if (deleteAssets) {
+        try {
+          await cloudinary.destroy(asset.public_id, {
+            resource_type: asset.resource_type,
+            type: asset.type || "upload",
+            invalidate: true,
+          });
+          deleted = true;
+        } catch (error) {
+          report.errors.push({
+            public_id: asset.public_id,
+            message: getErrorMessage(error),
+          });
+        }
+      }
+
+      report.orphanedAssets.push({
+        public_id: asset.public_id,
+        resource_type: asset.resource_type,
+        type: asset.type,
+        bytes: asset.bytes,
+        created_at: asset.created_at,
+        deleted,
+      });
+    }
+
+    return report;
+  };
+
+/**
+ * Job task running the reconciliation
+ *
+ * Queue it with `payload.jobs.queue({ task: 'cloudinaryReconcile', input: {} })`;
+ * one report per Cloudinary account and folder is stored as the task output
+ */
+export const getReconcileTask = ({
+  options,
+  reconcilers,
+}: {
+  options: CloudinaryReconcileOptions;
+  reconcilers: ReturnType<typeof getReconcileAssets>[];
+}): TaskConfig<ReconcileTaskIO> => ({
+  slug: options.taskSlug || DEFAULT_RECONCILE_TASK_SLUG,
+  label: "Reconcile Cloudinary assets",
+  inputSchema: [
+    { name: "relink", type: "checkbox" },
+    { name: "deleteAssets", type: "checkbox" },
+    { name: "deleteDocuments", type: "checkbox" },
+    { name: "gracePeriod", type: "number", min: 0 },
+  ],
+  outputSchema: [{ name: "reports", type: "json" }],
+  handler: async ({ input, req }) => {
+    const reports: CloudinaryReconcileReport[] = [];
+    for (const reconcileAssets of reconcilers) {
+      reports.push(
+        await reconcileAssets(req.payload, {
+          relink: input?.relink === true,
+          deleteAssets: input?.deleteAssets === true,
+          deleteDocuments: input?.deleteDocuments === true,
+          gracePeriod:
+            typeof input?.gracePeriod === "number"
+              ? input.gracePeriod
+              : undefined,
+          req,
+        }),
+      );
+    }
+    return { output: { reports } };
+  },
+});
@@ -0,0 +1,186 @@
+import type {
+  CloudinaryResourceType,
+  CloudinaryResourceTypeMapping,
+} from "./types";
+
+import path from "path";
+import { getResourceType } from "./utils";
+
+// Declared types that say nothing about the content
+const GENERIC_MIME_TYPES = ["application/octet-stream", "binary/octet-stream"];
+
+// ISO base media brands of still images (HEIF and AVIF)
+const HEIF_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+const AVIF_BRANDS = ["avif", "avis"];
+
+type DetectArgs = {
+  filename: string;
+  /**
+   * MIME type declared by the upload (or stored on the document)
+   */
+  mimeType?: string | null;
+  /**
+   * Leading bytes of the file, to sniff its actual type
+   */
+  buffer?: Buffer;
+  mapping?: CloudinaryResourceTypeMapping;
+};
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const readASCII = (buffer: Buffer, start: number, end: number): string =>
+  buffer.toString("latin1", start, end);
+
+/**
+ * MIME type of a file from its magic bytes, if recognized
+ */
+export const sniffMimeType = (
+  buffer: Buffer | undefined,
+): string | undefined => {
+  if (!buffer || buffer.length < 4) return undefined;
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (readASCII(buffer, 0, 4) === "GIF8") return "image/gif";
+  if (
+    startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "image/tiff";
+  }
+  if (readASCII(buffer, 0, 4) === "%PDF") return "application/pdf";
+  if (readASCII(buffer, 0, 4) === "fLaC") return "audio/flac";
+  if (readASCII(buffer, 0, 4) === "OggS") return "application/ogg";
+  if (readASCII(buffer, 0, 3) === "ID3") return "audio/mpeg";
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return readASCII(buffer, 0, 64).includes("webm")
+      ? "video/webm"
+      : "video/x-matroska";
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+  if (startsWith(buffer, [0x1f, 0x8b])) return "application/gzip";
+
+  // RIFF and IFF containers store their form type after the chunk size
+  const container = readASCII(buffer, 0, 4);
+  const form = readASCII(buffer, 8, 12);
+  if (container === "RIFF") {
+    if (form === "WEBP") return "image/webp";
+    if (form === "WAVE") return "audio/wav";
+    if (form.startsWith("AVI")) return "video/x-msvideo";
+  }
+  if (container === "FORM" && (form === "AIFF" || form === "AIFC")) {
+    return "audio/aiff";
+  }
+
+  // ISO base media files (MP4, MOV, HEIC, AVIF...) are told apart by brand
+  if (readASCII(buffer, 4, 8) === "ftyp") {
+    const brand = readASCII(buffer, 8, 12).trim().toLowerCase();
+    if (HEIF_BRANDS.includes(brand)) return "image/heic";
+    if (brand === "mif1" || brand === "msf1") return "image/heif";
+    if (AVIF_BRANDS.includes(brand)) return "image/avif";
+    if (brand === "m4a" || brand === "m4b") return "audio/mp4";
+    if (brand === "qt") return "video/quicktime";
+    return "video/mp4";
+  }
+
+  // MPEG transport streams repeat a sync byte every 188 bytes, after a
+  // 4-byte timestamp in M2TS (.mts) files
+  const isTransportStream = (offset: number, size: number) =>
+    [0, 1, 2].every((packet) => buffer[offset + packet * size] === 0x47);
+  if (isTransportStream(0, 188) || isTransportStream(4, 192)) {
+    return "video/mp2t";
+  }
+
+  // MPEG audio frames start with a sync word, ADTS (AAC) ones without layer
+  // (FF FE and FF FF are UTF-16 byte order marks and padding)
+  if (buffer[0] === 0xff && buffer[1] < 0xfe) {
+    if ((buffer[1] & 0xf6) === 0xf0) return "audio/aac";
+    if ((buffer[1] & 0xe0) === 0xe0) return "audio/mpeg";
+  }
+
+  if (startsWith(buffer, [0x42, 0x4d]) && buffer.length >= 26) {
+    return "image/bmp";
+  }
+
+  // SVG is text, possibly behind an XML declaration, comments or a doctype
+  const bom = startsWith(buffer, [0xef, 0xbb, 0xbf]) ? 3 : 0;
+  const text = readASCII(buffer, bom, 1024).trimStart();
+  if (
+    /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(
+      text,
+    )
+  ) {
+    return "image/svg+xml";
+  }
+
+  return undefined;
+};
+
+/**
+ * Resource type of a MIME type, if it decides one
+ */
+const getMimeResourceType = (
+  mimeType: string,
+): CloudinaryResourceType | undefined => {
+  const [kind] = mimeType.split("/");
+
+  // Cloudinary treats audio (and Ogg, audio or video) as video
+  if (kind === "video" || kind === "audio") return "video";
+  if (mimeType === "application/ogg") return "video";
+  if (kind === "image") return "image";
+  if (kind === "application" || kind === "text") return "raw";
+  return undefined;
+};
+
+/**
+ * Resource type a mapping assigns to a MIME type or extension
+ * Exact MIME types win over `type/*` wildcards, which win over extensions
+ */
+const getMappedResourceType = (
+  mapping: CloudinaryResourceTypeMapping | undefined,
+  mimeTypes: string[],
+  ext: string,
+): CloudinaryResourceType | undefined => {
+  if (!mapping) return undefined;
+
+  for (const mimeType of mimeTypes) {
+    if (mapping[mimeType]) return mapping[mimeType];
+  }
+  for (const mimeType of mimeTypes) {
+    const wildcard = `${mimeType.split("/")[0]}/*`;
+    if (mapping[wildcard]) return mapping[wildcard];
+  }
+  return mapping[ext];
+};
+
+/**
+ * Decide the Cloudinary resource type of a file
+ *
+ * The mapping is consulted first, then the MIME type sniffed from the
+ * file's bytes, the declared MIME type and finally the extension lists.
+ * Unrecognized files are uploaded as `auto`
+ */
+export const detectResourceType = ({
+  filename,
+  mimeType,
+  buffer,
+  mapping,
+}: DetectArgs): CloudinaryResourceType | "auto" => {
+  const ext = path.extname(filename).toLowerCase();
+  const declared =
+    mimeType && !GENERIC_MIME_TYPES.includes(mimeType.toLowerCase())
+      ? mimeType.toLowerCase().split(";")[0].trim()
+      : undefined;
+  const sniffed = sniffMimeType(buffer);
+  const mimeTypes = [sniffed, declared].filter(
+    (type): type is string => !!type,
+  );
+
+  return (
+    getMappedResourceType(mapping, mimeTypes, ext) ||
+    (sniffed && getMimeResourceType(sniffed)) ||
+    (declared && getMimeResourceType(declared)) ||
+    getResourceType(ext)
+  );
+};
@@ -0,0 +1,236 @@
+import type { Field } from "payload";
+import type { CloudinaryClient } from "./client";
+import type {
+  CloudinaryConfig,
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryModerationOptions,
+  CloudinaryResponsiveOptions,
+  CloudinaryTransformation,
+  CloudinaryTransformationPresets,
+  PayloadDocument,
+} from "./types";
+
+import { applyFocus, getFocus } from "./focalPoint";
+import { getMimeType } from "./imageSizes";
+import { isModerationBlocked } from "./moderation";
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+import {
+  getTransformationPreset,
+  serializeTransformation,
+} from "./transformations";
+
+export const DEFAULT_RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920, 2560];
+export const DEFAULT_RESPONSIVE_FORMATS = ["avif", "webp"];
+
+export type CloudinaryPictureSource = {
+  /**
+   * MIME type of the source, e.g. `image/avif`
+   */
+  type: string;
+  srcset: string;
+  sizes: string;
+};
+
+export type CloudinaryResponsiveImage = {
+  /**
+   * URL of the largest width in the fallback format
+   */
+  src: string;
+  srcset: string;
+  sizes: string;
+  /**
+   * Dimensions of `src`, for the `width`/`height` attributes
+   */
+  width: number;
+  height?: number;
+  /**
+   * `<source>` elements, in order of preference, before the fallback `<img>`
+   */
+  sources: CloudinaryPictureSource[];
+};
+
+interface Args {
+  cloudinary: CloudinaryClient;
+  config: CloudinaryConfig;
+  transformations?: CloudinaryTransformationPresets;
+  deliveryType?: CloudinaryDeliveryType;
+  focalPoint?: CloudinaryFocalPointOptions;
+  defaults?: CloudinaryResponsiveOptions;
+  moderation?: CloudinaryModerationOptions;
+}
+
+const isPDF = (doc: PayloadDocument): boolean =>
+  doc.cloudinary?.format === "pdf" ||
+  !!doc.filename?.toLowerCase().endsWith(".pdf");
+
+/**
+ * Height-to-width ratio of the rendition, if known
+ */
+const getRatio = (
+  preset: CloudinaryTransformation | undefined,
+  doc: PayloadDocument,
+): number | undefined => {
+  if (preset?.width && preset.height) return preset.height / preset.width;
+
+  if (preset?.aspect_ratio !== undefined) {
+    const [w, h] = String(preset.aspect_ratio).split(":").map(Number);
+    const ratio = h ? h / w : 1 / w;
+    if (Number.isFinite(ratio) && ratio > 0) return ratio;
+  }
+
+  const { width, height } = doc.cloudinary || {};
+  return width && height ? height / width : undefined;
+};
+
+/**
+ * Build the `sizes` attribute from breakpoints
+ */
+const getSizes = ({
+  breakpoints = [],
+  sizes = "100vw",
+}: CloudinaryResponsiveOptions): string =>
+  [
+    // Media conditions are matched in order, so the narrowest goes first
+    ...[...breakpoints]
+      .sort((a, b) => a.maxWidth - b.maxWidth)
+      .map(({ maxWidth, size }) => `(max-width: ${maxWidth}px) ${size}`),
+    sizes,
+  ].join(", ");
+
+/**
+ * Build `srcset`, `sizes` and `<picture>` sources for a media document
+ *
+ * URLs use the stored public ID, version and delivery type. A transformation
+ * preset is applied to every width: its width is replaced and its height
+ * scaled to keep the aspect ratio
+ */
+export const getResponsiveImage =
+  ({
+    cloudinary,
+    config,
+    transformations,
+    deliveryType = "upload",
+    focalPoint,
+    defaults = {},
+    moderation,
+  }: Args) =>
+  (
+    doc: PayloadDocument,
+    options: CloudinaryResponsiveOptions = {},
+  ): CloudinaryResponsiveImage | null => {
+    const stored = doc.cloudinary;
+    if (!stored?.public_id) return null;
+    if (isModerationBlocked(stored, moderation)) return null;
+
+    // PDF pages are rendered through the image pipeline
+    const pdf = isPDF(doc);
+    if (!pdf && stored.resource_type !== "image") return null;
+
+    const {
+      widths = DEFAULT_RESPONSIVE_WIDTHS,
+      formats = DEFAULT_RESPONSIVE_FORMATS,
+      fallbackFormat = stored.format === "png" ? "png" : "jpg",
+      transformation,
+    } = { ...defaults, ...options };
+    const sizes = getSizes({ ...defaults, ...options });
+
+    const preset = applyFocus(
+      transformation
+        ? getTransformationPreset(transformations, transformation)
+        : undefined,
+      getFocus(doc, focalPoint),
+    );
+    const ratio = getRatio(preset, doc);
+
+    // Widths beyond the original would only upscale it
+    const candidates = [...new Set(widths)]
+      .filter((width) => width > 0)
+      .sort((a, b) => a - b);
+    const usable = stored.width
+      ? candidates.filter((width) => width <= stored.width!)
+      : candidates;
+    const renditionWidths =
+      usable.length > 0 ? usable : stored.width ? [stored.width] : [];
+    if (renditionWidths.length === 0) return null;
+
+    const type: CloudinaryDeliveryType =
+      (stored.type as CloudinaryDeliveryType) || deliveryType;
+    const publicId = pdf
+      ? stored.public_id.replace(/\.pdf$/, "")
+      : stored.public_id;
+    const extension = pdf ? "pdf" : stored.format;
+    const page = stored.selected_page || 1;
+
+    const getURL = (width: number, format: string): string => {
+      const segment = serializeTransformation(
+        {
+          crop: "limit",
+          ...preset,
+          width,
+          height:
+            preset?.width && preset.height && ratio
+              ? Math.round(width * ratio)
+              : undefined,
+          format,
+        },
+        { target: pdf ? "pdf" : "image", page },
+      );
+
+      if (isRestrictedDeliveryType(type)) {
+        return getSignedURL(cloudinary, {
+          public_id: publicId,
+          format: extension,
+          resource_type: "image",
+          type,
+          version: stored.version,
+          transformation: segment,
+        });
+      }
+
+      const versionSegment = stored.version ? `/v${stored.version}` : "";
+      return `https://res.cloudinary.com/${config.cloud_name}/image/upload/${segment}${versionSegment}/${publicId}.${extension}`;
+    };
+
+    const getSrcset = (format: string): string =>
+      renditionWidths
+        .map((width) => `${getURL(width, format)} ${width}w`)
+        .join(", ");
+
+    const largest = renditionWidths[renditionWidths.length - 1];
+
+    return {
+      src: getURL(largest, fallbackFormat),
+      srcset: getSrcset(fallbackFormat),
+      sizes,
+      width: largest,
+      ...(ratio && { height: Math.round(largest * ratio) }),
+      sources: [...formats, fallbackFormat]
+        .filter((format, index, all) => all.indexOf(format) === index)
+        .map((format) => ({
+          type: getMimeType(format),
+          srcset: getSrcset(format),
+          sizes,
+        })),
+    };
+  };
+
+/**
+ * Virtual field exposing the responsive image of a document
+ */
+export const getResponsiveField = (
+  responsiveImage: ReturnType<typeof getResponsiveImage>,
+): Field => ({
+  name: "responsive",
+  type: "json",
+  virtual: true,
+  admin: {
+    hidden: true,
+  },
+  hooks: {
+    afterRead: [
+      ({ data }) =>
+        data ? responsiveImage(data as PayloadDocument) : undefined,
+    ],
+  },
+});
@@ -0,0 +1,61 @@
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryDeliveryType } from "./types";
+
+export const DEFAULT_SIGNED_URL_EXPIRES_IN = 3600;
+
+type SignedURLArgs = {
+  public_id: string;
+  format?: string;
+  resource_type?: string;
+  type: CloudinaryDeliveryType;
+  version?: string | number;
+  /**
+   * Serialized transformation segment (e.g. from a preset)
+   */
+  transformation?: string;
+  /**
+   * Lifetime of the URL in seconds
+   */
+  expiresIn?: number;
+};
+
+/**
+ * Check if a delivery type needs signed URLs
+ */
+export const isRestrictedDeliveryType = (type?: string): boolean =>
+  !!type && type !== "upload";
+
+/**
+ * Generate a signed URL for an authenticated or private asset
+ * Originals are delivered through an expiring download URL, while
+ * transformed renditions use a signed delivery URL. Delivery URL
+ * signatures never expire, so `expiresIn` only applies to originals
+ */
+export const getSignedURL = (
+  cloudinary: CloudinaryClient,
+  {
+    public_id,
+    format = "",
+    resource_type = "image",
+    type,
+    version,
+    transformation,
+    expiresIn = DEFAULT_SIGNED_URL_EXPIRES_IN,
+  }: SignedURLArgs,
+): string => {
+  if (transformation) {
+    return cloudinary.signedURL(public_id, {
+      resource_type,
+      type,
+      version,
+      format,
+      transformation,
+    });
+  }
+
+  return cloudinary.privateDownloadURL(public_id, format, {
+    resource_type,
+    type,
+    expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+  });
+};
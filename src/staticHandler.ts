@@ -1,158 +1,537 @@
 import type { StaticHandler } from "@payloadcms/plugin-cloud-storage/types";
-import type { CollectionConfig } from "payload";
-import type { v2 as cloudinaryType } from "cloudinary";
+import type { CollectionConfig, PayloadRequest } from "payload";
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryFocus } from "./focalPoint";
+import type {
+  CloudinaryDeliveryType,
+  CloudinaryFocalPointOptions,
+  CloudinaryMetadata,
+  CloudinaryModerationOptions,
+  CloudinaryResourceTypeMapping,
+  CloudinaryStaticHandlerMode,
+  CloudinaryTransformationPresets,
+  CloudinaryVersioningOptions,
+  GenerateURLParams,
+  PayloadDocument,
+  PublicIDOptions,
+} from "./types";
 
-import { getFilePrefix } from "@payloadcms/plugin-cloud-storage/utilities";
 import path from "path";
-import { getResourceType } from "./utils";
+import { detectResourceType } from "./resourceType";
+import { serializeTransformation } from "./transformations";
+import {
+  findImageSizeByFilename,
+  getImageSizes,
+  getImageSizeTransformationString,
+  getImageSizeURL,
+} from "./imageSizes";
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+import { findVersionEntry, getBackedUpVersionURL } from "./versions";
+import { findFileDocument, resolvePublicID } from "./publicID";
+import { applyFocus, getFocus } from "./focalPoint";
+import { canModerate, isModerationBlocked } from "./moderation";
 
 interface Args {
-  cloudinary: typeof cloudinaryType;
+  cloudinary: CloudinaryClient;
   collection: CollectionConfig;
   folder: string;
+  prefix?: string;
+  publicID?: PublicIDOptions;
+  transformations?: CloudinaryTransformationPresets;
+  versioning?: CloudinaryVersioningOptions;
+  deliveryType?: CloudinaryDeliveryType;
+  signedURLExpiresIn?: number;
+  cacheControl?: string;
+  staticHandlerMode?: CloudinaryStaticHandlerMode;
+  focalPoint?: CloudinaryFocalPointOptions;
+  resourceTypes?: CloudinaryResourceTypeMapping;
+  moderation?: CloudinaryModerationOptions;
+  /**
+   * URL builder used by the redirect mode
+   */
+  generateURL?: (args: GenerateURLParams) => Promise<string> | string;
 }
 
+/**
+ * Insert a transformation segment into a Cloudinary delivery URL
+ * PDF pages are rendered through the image pipeline
+ */
+const insertTransformation = (
+  url: string,
+  segment: string,
+  isPDFPage: boolean,
+): string => {
+  const urlParts = url.split("/upload/");
+  if (urlParts.length !== 2) return url;
+
+  const base = isPDFPage
+    ? urlParts[0].replace(/\/raw$/, "/image")
+    : urlParts[0];
+  return `${base}/upload/${segment}/${urlParts[1]}`;
+};
+
+// Public files are cached by browsers and CDNs, restricted files only privately
+export const DEFAULT_CACHE_CONTROL = "public, max-age=86400";
+export const DEFAULT_RESTRICTED_CACHE_CONTROL = "private, no-cache";
+// Redirect targets change on replace, rename and moderation
+const REDIRECT_CACHE_CONTROL = "private, no-cache";
+
+// Request headers passed on to Cloudinary
+const FORWARDED_REQUEST_HEADERS = [
+  "range",
+  "if-range",
+  "if-none-match",
+  "if-modified-since",
+];
+
+// Upstream response headers passed back to the client
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-range",
+  "accept-ranges",
+  "etag",
+  "last-modified",
+];
+
+/**
+ * Check a conditional request against the upstream validators
+ */
+const isNotModified = (req: PayloadRequest, upstream: Response): boolean => {
+  const etag = upstream.headers.get("etag");
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (etag && ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .some((value) => value.trim() === etag || value.trim() === "*");
+  }
+
+  const lastModified = upstream.headers.get("last-modified");
+  const ifModifiedSince = req.headers.get("if-modified-since");
+  if (lastModified && ifModifiedSince) {
+    return Date.parse(lastModified) <= Date.parse(ifModifiedSince);
+  }
+
+  return false;
+};
+
+/**
+ * Stream a Cloudinary delivery URL as the file response
+ * Range and conditional requests are handled by Cloudinary's CDN
+ */
+const proxyAsset = async (
+  cloudinary: CloudinaryClient,
+  url: string,
+  req: PayloadRequest,
+  cacheControl: string,
+): Promise<Response> => {
+  // fetch decompresses encoded bodies, which would break Content-Length and
+  // byte ranges, so ask for the bytes as stored
+  const requestHeaders = new Headers({ "accept-encoding": "identity" });
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = req.headers.get(name);
+    if (value) requestHeaders.set(name, value);
+  });
+
+  const upstream = await cloudinary.fetch(url, { headers: requestHeaders });
+
+  const headers = new Headers({ "Cache-Control": cacheControl });
+  FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  // The length of an encoded body doesn't match the decompressed stream
+  if (upstream.headers.get("content-encoding")) {
+    headers.delete("content-length");
+  }
+
+  // Unsatisfiable ranges keep their Content-Range so clients can retry
+  if (upstream.status === 304 || upstream.status === 416) {
+    await upstream.body?.cancel();
+    return new Response(null, { headers, status: upstream.status });
+  }
+
+  if (!upstream.ok) {
+    await upstream.body?.cancel();
+    return new Response(null, { status: 404, statusText: "Not Found" });
+  }
+
+  // The CDN may ignore validators, so check them against its response too
+  if (upstream.status === 200 && isNotModified(req, upstream)) {
+    await upstream.body?.cancel();
+    headers.delete("content-length");
+    return new Response(null, { headers, status: 304 });
+  }
+
+  return new Response(upstream.body, { headers, status: upstream.status });
+};
+
+/**
+ * Find the derivative URL when the filename belongs to an image size
+ */
+const getImageSizeDeliveryURL = (
+  cloudinary: CloudinaryClient,
+  collection: CollectionConfig,
+  doc: PayloadDocument | undefined,
+  filename: string,
+  expiresIn?: number,
+  focus?: CloudinaryFocus,
+): string | undefined => {
+  const sizeName = findImageSizeByFilename(doc?.sizes, filename);
+  const size = getImageSizes(collection).find(
+    (imageSize) => imageSize.name === sizeName,
+  );
+
+  if (!size || !doc?.cloudinary?.public_id) return undefined;
+
+  if (isRestrictedDeliveryType(doc.cloudinary.type)) {
+    return getSignedURL(cloudinary, {
+      public_id: doc.cloudinary.public_id,
+      format: doc.cloudinary.format,
+      resource_type: "image",
+      type: doc.cloudinary.type as CloudinaryDeliveryType,
+      version: doc.cloudinary.version,
+      transformation: getImageSizeTransformationString(
+        size,
+        doc.cloudinary.format,
+        focus,
+      ),
+      expiresIn,
+    });
+  }
+
+  return getImageSizeURL(cloudinary.cloudName, size, doc.cloudinary, focus);
+};
+
+/**
+ * Delivery URL of a stored asset
+ * Built from its public ID instead of the stored `secure_url`, which can be
+ * written through the API, so only Cloudinary's CDN is ever fetched
+ */
+const getStoredDeliveryURL = (
+  cloudName: string,
+  metadata: CloudinaryMetadata,
+): string => {
+  const resourceType = metadata.resource_type || "image";
+  const publicId = metadata.public_id
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/");
+  const versionSegment = metadata.version
+    ? `/v${encodeURIComponent(metadata.version)}`
+    : "";
+  // Raw public IDs keep their extension
+  const extension =
+    resourceType !== "raw" && metadata.format
+      ? `.${encodeURIComponent(metadata.format)}`
+      : "";
+  return `https://res.cloudinary.com/${cloudName}/${encodeURIComponent(resourceType)}/${encodeURIComponent(metadata.type || "upload")}${versionSegment}/${publicId}${extension}`;
+};
+
+/**
+ * Find the backup URL of a previous version of a file
+ */
+const getVersionDeliveryURL = (
+  cloudinary: CloudinaryClient,
+  doc: PayloadDocument | undefined,
+  version: string,
+): string | undefined => {
+  const entry = findVersionEntry(doc?.versions, version);
+
+  if (!doc?.cloudinary || !entry || entry.version === doc.cloudinary.version) {
+    return undefined;
+  }
+
+  return getBackedUpVersionURL(cloudinary, doc.cloudinary, entry);
+};
+
+/**
+ * Check the collection read access of the current user for a file
+ */
+const hasReadAccess = async (
+  collection: CollectionConfig,
+  filename: string,
+  req: PayloadRequest,
+): Promise<boolean> => {
+  try {
+    const { totalDocs } = await req.payload.count({
+      collection: collection.slug,
+      overrideAccess: false,
+      req,
+      where: {
+        or: [
+          { filename: { equals: filename } },
+          ...getImageSizes(collection).map((size) => ({
+            [`sizes.${size.name}.filename`]: { equals: filename },
+          })),
+        ],
+      },
+    });
+    return totalDocs > 0;
+  } catch (error) {
+    // Payload throws Forbidden when access is denied outright
+    return false;
+  }
+};
+
 export const getHandler =
-  ({ cloudinary, collection, folder }: Args): StaticHandler =>
+  ({
+    cloudinary,
+    collection,
+    folder,
+    prefix: collectionPrefix,
+    publicID,
+    transformations,
+    versioning,
+    deliveryType = "upload",
+    signedURLExpiresIn,
+    cacheControl,
+    staticHandlerMode = "proxy",
+    focalPoint,
+    resourceTypes,
+    moderation,
+    generateURL,
+  }: Args): StaticHandler =>
   async (req, { params: { filename } }) => {
     try {
-      const prefix = await getFilePrefix({ collection, filename, req });
-      const filePath = path.posix.join(folder, prefix, filename);
+      // One lookup serves sizes, versions, redirects and the stored public ID
+      const doc = await findFileDocument(
+        req.payload,
+        collection,
+        filename,
+        req,
+      );
+
+      // Assets keep the delivery type they were uploaded with
+      const type =
+        (doc?.cloudinary?.type as CloudinaryDeliveryType | undefined) ??
+        deliveryType;
+      const isRestricted = isRestrictedDeliveryType(type);
+      const cacheControlHeader =
+        cacheControl ||
+        (isRestricted
+          ? DEFAULT_RESTRICTED_CACHE_CONTROL
+          : DEFAULT_CACHE_CONTROL);
 
-      // Determine resource type based on file extension
+      // Private media is never proxied without collection read access
+      if (isRestricted && !(await hasReadAccess(collection, filename, req))) {
+        return new Response(null, { status: 403, statusText: "Forbidden" });
+      }
+
+      // Only moderators see pending and rejected assets
+      const isBlocked = isModerationBlocked(doc?.cloudinary, moderation);
+      if (
+        isBlocked &&
+        !(moderation && (await canModerate(moderation, collection, req)))
+      ) {
+        return new Response(null, { status: 403, statusText: "Forbidden" });
+      }
+
+      const prefix = doc?.prefix || collectionPrefix || "";
+      const focus = getFocus(doc, focalPoint);
+
+      // Prefer the stored resource type over detecting it again
       const fileExt = path.extname(filename).toLowerCase();
-      const resourceType = getResourceType(fileExt);
+      const resourceType =
+        doc?.cloudinary?.resource_type ||
+        detectResourceType({
+          filename,
+          mimeType: doc?.mimeType,
+          mapping: resourceTypes,
+        });
 
       // Check if this is a request for a PDF thumbnail
       const isPdfThumbnail =
         fileExt === ".pdf" && req.url?.includes("thumbnail=true");
 
-      // Generate the public_id - keep the extension for better identification
-      // This is different from the upload behavior which removes extensions
-      const publicId = filePath;
+      // Named transformation preset requested through the query string
+      const presetName = req.searchParams?.get("transformation");
+      const preset = presetName ? transformations?.[presetName] : undefined;
 
-      try {
-        // First, try to get the resource with the extension included
-        const result = await cloudinary.api.resource(publicId, {
-          resource_type: resourceType,
+      if (presetName && !preset) {
+        return new Response(`Unknown transformation preset "${presetName}"`, {
+          status: 400,
+          statusText: "Bad Request",
+        });
+      }
+
+      // Backups bypass delivery restrictions, so previous versions need read
+      // access to the document
+      const requestedVersion = req.searchParams?.get("version");
+      const version =
+        versioning?.enabled &&
+        requestedVersion &&
+        requestedVersion !== doc?.cloudinary?.version &&
+        (isRestricted || (await hasReadAccess(collection, filename, req)))
+          ? requestedVersion
+          : undefined;
+
+      // Send the client straight to Cloudinary without proxying or Admin API calls
+      // (generateURL withholds blocked assets, so moderators get them proxied,
+      // and points previous versions back to this route)
+      if (
+        staticHandlerMode === "redirect" &&
+        generateURL &&
+        !isBlocked &&
+        !version
+      ) {
+        if (!doc) {
+          return new Response(null, { status: 404, statusText: "Not Found" });
+        }
+
+        const location = await generateURL({
+          collection,
+          data: doc,
+          filename,
+          prefix: doc.prefix || prefix,
+          ...(presetName && { transformation: presetName }),
+          ...(isPdfThumbnail && { format: "jpg" }),
+          version: doc.cloudinary?.version,
         });
 
-        if (result && result.secure_url) {
-          let url = result.secure_url;
-
-          // If this is a PDF thumbnail request, add Cloudinary transformation
-          if (isPdfThumbnail) {
-            // Extract the base URL and add transformation for first page of PDF
-            const urlParts = url.split("/upload/");
-            if (urlParts.length === 2) {
-              // Add transformation to extract first page as image
-              url = urlParts[0] + "/upload/pg_1,f_jpg,q_auto/" + urlParts[1];
-            }
-          }
-
-          const response = await fetch(url);
-
-          if (!response.ok) {
-            return new Response(null, { status: 404, statusText: "Not Found" });
-          }
-
-          const blob = await response.blob();
-
-          const etagFromHeaders =
-            req.headers.get("etag") || req.headers.get("if-none-match");
-          const objectEtag = req.headers.get("etag") as string;
-
-          if (etagFromHeaders && etagFromHeaders === objectEtag) {
-            return new Response(null, {
-              headers: new Headers({
-                "Content-Type": blob.type,
-                "Content-Length": String(blob.size),
-                ETag: objectEtag,
-              }),
-              status: 304,
-            });
-          }
-
-          // Return the blob with appropriate headers
-          return new Response(blob, {
-            headers: new Headers({
-              "Content-Type": blob.type,
-              "Content-Length": String(blob.size),
-              ETag: objectEtag,
-            }),
-            status: 200,
+        return new Response(null, {
+          headers: new Headers({
+            Location: location,
+            "Cache-Control": REDIRECT_CACHE_CONTROL,
+          }),
+          status: 302,
+        });
+      }
+
+      // Image sizes are served from their Cloudinary derivative
+      const sizeURL = getImageSizeDeliveryURL(
+        cloudinary,
+        collection,
+        doc,
+        filename,
+        signedURLExpiresIn,
+        focus,
+      );
+      if (sizeURL) {
+        return await proxyAsset(cloudinary, sizeURL, req, cacheControlHeader);
+      }
+
+      // Previous versions are served from Cloudinary's backups
+      const versionURL = version
+        ? getVersionDeliveryURL(cloudinary, doc, version)
+        : undefined;
+      if (versionURL) {
+        return await proxyAsset(
+          cloudinary,
+          versionURL,
+          req,
+          cacheControlHeader,
+        );
+      }
+
+      // Build the transformation segment to apply to the delivery URL
+      const isPDFPage = fileExt === ".pdf" && (isPdfThumbnail || !!preset);
+      let transformationSegment = "";
+      if (isPDFPage) {
+        transformationSegment = serializeTransformation(
+          applyFocus(preset, focus),
+          {
+            target: "pdf",
+            page: 1,
+          },
+        );
+      } else if (
+        preset &&
+        (resourceType === "image" || resourceType === "video")
+      ) {
+        transformationSegment = serializeTransformation(
+          applyFocus(preset, focus),
+          {
+            target: resourceType,
+          },
+        );
+      }
+
+      // Build the URL to proxy from the Cloudinary resource
+      const getDeliveryURL = (result: {
+        public_id: string;
+        format?: string;
+        resource_type?: string;
+        secure_url: string;
+      }): string => {
+        // Authenticated and private assets need a signed URL
+        if (isRestricted) {
+          return getSignedURL(cloudinary, {
+            public_id: isPDFPage
+              ? result.public_id.replace(/\.pdf$/, "")
+              : result.public_id,
+            format: isPDFPage
+              ? "pdf"
+              : result.resource_type === "raw"
+                ? ""
+                : result.format,
+            resource_type: isPDFPage ? "image" : result.resource_type,
+            type,
+            transformation: transformationSegment || undefined,
+            expiresIn: signedURLExpiresIn,
           });
         }
-      } catch (resourceError) {
-        // If the first attempt fails, try without the extension
-        try {
-          const publicIdWithoutExt = filePath.replace(/\.[^/.]+$/, "");
-
-          const fallbackResult = await cloudinary.api.resource(
-            publicIdWithoutExt,
-            {
-              resource_type: resourceType,
-            },
+
+        // Apply PDF thumbnail or preset transformation if requested
+        if (transformationSegment) {
+          return insertTransformation(
+            result.secure_url,
+            transformationSegment,
+            isPDFPage,
           );
+        }
 
-          if (fallbackResult && fallbackResult.secure_url) {
-            let url = fallbackResult.secure_url;
-
-            // If this is a PDF thumbnail request, add Cloudinary transformation
-            if (isPdfThumbnail) {
-              // Extract the base URL and add transformation for first page of PDF
-              const urlParts = url.split("/upload/");
-              if (urlParts.length === 2) {
-                // Add transformation to extract first page as image
-                url = urlParts[0] + "/upload/pg_1,f_jpg,q_auto/" + urlParts[1];
-              }
-            }
-
-            const response = await fetch(url);
-
-            if (!response.ok) {
-              return new Response(null, {
-                status: 404,
-                statusText: "Not Found",
-              });
-            }
-
-            const blob = await response.blob();
-
-            const etagFromHeaders =
-              req.headers.get("etag") || req.headers.get("if-none-match");
-            const objectEtag = req.headers.get("etag") as string;
-
-            if (etagFromHeaders && etagFromHeaders === objectEtag) {
-              return new Response(null, {
-                headers: new Headers({
-                  "Content-Type": blob.type,
-                  "Content-Length": String(blob.size),
-                  ETag: objectEtag,
-                }),
-                status: 304,
-              });
-            }
-
-            // Return the blob with appropriate headers
-            return new Response(blob, {
-              headers: new Headers({
-                "Content-Type": blob.type,
-                "Content-Length": String(blob.size),
-                ETag: objectEtag,
-              }),
-              status: 200,
-            });
-          }
-        } catch (fallbackError) {
-          // If both attempts fail, return 404
-          req.payload.logger.error({
-            error: fallbackError,
-            message: "Resource not found in Cloudinary",
-            path: filePath,
-          });
-          return new Response(null, { status: 404, statusText: "Not Found" });
+        return result.secure_url;
+      };
+
+      // Documents uploaded by this plugin store everything needed to deliver
+      if (doc?.cloudinary?.public_id && doc.cloudinary.secure_url) {
+        return await proxyAsset(
+          cloudinary,
+          getDeliveryURL({
+            ...doc.cloudinary,
+            secure_url: getStoredDeliveryURL(
+              cloudinary.cloudName,
+              doc.cloudinary,
+            ),
+          }),
+          req,
+          cacheControlHeader,
+        );
+      }
+
+      // Documents without stored metadata need a Cloudinary lookup
+      const publicId = resolvePublicID({
+        filename,
+        doc,
+        folder,
+        prefix,
+        publicID,
+        resourceTypes,
+      });
+
+      try {
+        const result = await cloudinary.resource(publicId, {
+          resource_type: resourceType,
+          type,
+        });
+
+        if (result && result.secure_url) {
+          return await proxyAsset(
+            cloudinary,
+            getDeliveryURL(result),
+            req,
+            cacheControlHeader,
+          );
         }
+      } catch (resourceError) {
+        req.payload.logger.error({
+          error: resourceError,
+          message: "Resource not found in Cloudinary",
+          public_id: publicId,
+        });
+        return new Response(null, { status: 404, statusText: "Not Found" });
       }
 
       // If we get here, the resource wasn't found
@@ -0,0 +1,524 @@
+import type {
+  BasePayload,
+  CollectionConfig,
+  CollectionSlug,
+  Endpoint,
+  JsonObject,
+  PayloadRequest,
+} from "payload";
+import type { CloudinaryClient, CloudinaryResource } from "./client";
+import type {
+  CloudinaryAudioOptions,
+  CloudinaryFocalPointOptions,
+  CloudinaryImageSizesOptions,
+  CloudinaryMetadata,
+  CloudinarySyncOptions,
+  CloudinaryVideoOptions,
+} from "./types";
+
+import path from "path";
+import { getImageSizes, getMimeType, getSizesData } from "./imageSizes";
+import { getFocus } from "./focalPoint";
+import { getVideoMetadata } from "./video";
+import { getAudioMetadata, isAudio } from "./audio";
+import { EXISTING_ASSET_CONTEXT } from "./collections/Media/hooks";
+import { isRecord, readJSONBody } from "./utils";
+
+// Largest page size the Search API allows
+const PAGE_SIZE = 500;
+
+export type CloudinarySyncSource = {
+  /**
+   * Import the assets of a Cloudinary folder
+   */
+  folder?: string;
+
+  /**
+   * Import the assets with a tag
+   */
+  tag?: string;
+
+  /**
+   * Import the assets matching a Search API expression
+   */
+  expression?: string;
+};
+
+export type CloudinarySyncArgs = CloudinarySyncSource & {
+  /**
+   * Slug of the collection to import into
+   */
+  collection: string;
+
+  /**
+   * Count what would change without writing anything
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Maximum number of assets to process
+   */
+  limit?: number;
+
+  /**
+   * Request to run the operations in (e.g. for transactions)
+   */
+  req?: PayloadRequest;
+
+  /**
+   * Skip the collection's access control; `false` applies it to `req.user`
+   * @default true
+   */
+  overrideAccess?: boolean;
+};
+
+export type CloudinarySyncResult = {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: { public_id: string; message: string }[];
+  dryRun: boolean;
+};
+
+interface Args {
+  cloudinary: CloudinaryClient;
+  folder: string;
+  imageSizes?: CloudinaryImageSizesOptions;
+  focalPoint?: CloudinaryFocalPointOptions;
+  video?: CloudinaryVideoOptions;
+  audio?: CloudinaryAudioOptions;
+}
+
+/**
+ * Build a Search API expression for the requested source
+ */
+export const getSyncExpression = ({
+  folder,
+  tag,
+  expression,
+}: CloudinarySyncSource): string => {
+  if (expression) return expression;
+
+  const conditions: string[] = [];
+  if (folder) {
+    // Fixed folder mode uses `folder`, dynamic folder mode `asset_folder`
+    conditions.push(`(folder="${folder}" OR asset_folder="${folder}")`);
+  }
+  if (tag) {
+    conditions.push(`tags="${tag}"`);
+  }
+
+  if (conditions.length === 0) {
+    throw new Error("A folder, tag or expression is required to sync assets.");
+  }
+
+  return conditions.join(" AND ");
+};
+
+/**
+ * Search API expression matching a folder and its sub-folders
+ */
+const getFolderScope = (folder: string): string =>
+  `(folder="${folder}" OR folder:${folder}/* OR asset_folder="${folder}" OR asset_folder:${folder}/*)`;
+
+/**
+ * Iterate over every asset matching a Search API expression, page by page
+ */
+export async function* searchResources(
+  cloudinary: CloudinaryClient,
+  expression: string,
+): AsyncGenerator<CloudinaryResource> {
+  let cursor: string | undefined;
+
+  do {
+    const page = await cloudinary.search(expression, {
+      maxResults: PAGE_SIZE,
+      nextCursor: cursor,
+    });
+    cursor = page.next_cursor;
+
+    yield* page.resources;
+  } while (cursor);
+}
+
+// Extensions whose MIME subtype differs from the extension
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  oga: "audio/ogg",
+  aiff: "audio/aiff",
+  wma: "audio/x-ms-wma",
+};
+
+/**
+ * Check if a `video` resource is an audio file
+ */
+const isAudioResource = (resource: CloudinaryResource): boolean =>
+  resource.resource_type === "video" &&
+  (!!resource.is_audio ||
+    (!!resource.format && isAudio(`.${resource.format}`)));
+
+/**
+ * MIME type of a Cloudinary asset
+ */
+const getAssetMimeType = (
+  resource: CloudinaryResource,
+  ext: string,
+): string => {
+  if (resource.resource_type === "image") {
+    return getMimeType(ext, `image/${ext}`);
+  }
+  if (isAudioResource(resource)) {
+    return AUDIO_MIME_TYPES[ext] || `audio/${ext}`;
+  }
+  if (resource.resource_type === "video") {
+    return ext === "mov" ? "video/quicktime" : `video/${ext}`;
+  }
+  return ext === "pdf" ? "application/pdf" : "application/octet-stream";
+};
+
+/**
+ * Cloudinary metadata of a search result, in the shape uploads store it
+ */
+export const getResourceMetadata = (
+  resource: CloudinaryResource,
+): Partial<CloudinaryMetadata> => ({
+  public_id: resource.public_id,
+  asset_id: resource.asset_id,
+  resource_type: resource.resource_type,
+  type: resource.type,
+  format: resource.format || "",
+  secure_url: resource.secure_url,
+  bytes: resource.bytes || 0,
+  created_at: resource.created_at || "",
+  version: resource.version ? String(resource.version) : undefined,
+  ...(resource.width && { width: resource.width }),
+  ...(resource.height && { height: resource.height }),
+  ...(resource.duration && { duration: resource.duration }),
+  ...(resource.pages && { pages: resource.pages, selected_page: 1 }),
+});
+
+/**
+ * Import Cloudinary assets into a collection without re-uploading them
+ *
+ * Idempotent: assets are matched to documents by `cloudinary.public_id`.
+ * Documents of unchanged assets (same version) are skipped, documents of
+ * changed assets get their metadata refreshed
+ */
+export const getSyncAssets =
+  ({
+    cloudinary,
+    folder: baseFolder,
+    imageSizes: imageSizesOptions,
+    focalPoint,
+    video,
+    audio,
+  }: Args) =>
+  async (
+    payload: BasePayload,
+    {
+      collection: collectionSlug,
+      dryRun = false,
+      limit,
+      req,
+      overrideAccess = true,
+      ...source
+    }: CloudinarySyncArgs,
+  ): Promise<CloudinarySyncResult> => {
+    const collection = payload.collections[collectionSlug as CollectionSlug]
+      ?.config as CollectionConfig | undefined;
+    if (!collection) {
+      throw new Error(`Unknown collection "${collectionSlug}"`);
+    }
+
+    const imageSizes =
+      imageSizesOptions?.enabled !== false ? getImageSizes(collection) : [];
+    const expression = getSyncExpression(source);
+    const result: CloudinarySyncResult = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      dryRun,
+    };
+
+    let processed = 0;
+    for await (const resource of searchResources(cloudinary, expression)) {
+      if (limit && processed >= limit) break;
+      processed += 1;
+
+      try {
+        await syncResource({
+          cloudinary,
+          payload,
+          collection,
+          resource,
+          baseFolder,
+          imageSizes,
+          focalPoint,
+          video,
+          audio,
+          dryRun,
+          result,
+          req,
+          overrideAccess,
+        });
+      } catch (error) {
+        result.failed += 1;
+        result.errors.push({
+          public_id: resource.public_id,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  };
+
+type SyncResourceArgs = {
+  cloudinary: CloudinaryClient;
+  payload: BasePayload;
+  collection: CollectionConfig;
+  resource: CloudinaryResource;
+  baseFolder: string;
+  imageSizes: ReturnType<typeof getImageSizes>;
+  focalPoint?: CloudinaryFocalPointOptions;
+  video?: CloudinaryVideoOptions;
+  audio?: CloudinaryAudioOptions;
+  dryRun: boolean;
+  result: CloudinarySyncResult;
+  req?: PayloadRequest;
+  overrideAccess: boolean;
+};
+
+/**
+ * Create or update the document of a single asset
+ */
+const syncResource = async ({
+  cloudinary,
+  payload,
+  collection,
+  resource,
+  baseFolder,
+  imageSizes,
+  focalPoint,
+  video,
+  audio,
+  dryRun,
+  result,
+  req,
+  overrideAccess,
+}: SyncResourceArgs): Promise<void> => {
+  const slug = collection.slug as CollectionSlug;
+  const metadata = {
+    ...getResourceMetadata(resource),
+    // Imported audio and videos get the same derived URLs as uploads
+    ...(isAudioResource(resource)
+      ? getAudioMetadata(cloudinary, resource, audio)
+      : video &&
+        resource.resource_type === "video" &&
+        getVideoMetadata(cloudinary, resource, video)),
+  };
+
+  const { docs } = await payload.find({
+    collection: slug,
+    depth: 0,
+    limit: 1,
+    pagination: false,
+    overrideAccess,
+    req,
+    where: { "cloudinary.public_id": { equals: resource.public_id } },
+  });
+  const existing: (typeof docs)[number] | undefined = docs[0];
+
+  if (existing && existing.cloudinary?.version === metadata.version) {
+    result.skipped += 1;
+    return;
+  }
+
+  // Raw public IDs already include their extension
+  const isRaw = resource.resource_type === "raw";
+  const ext = isRaw
+    ? path.extname(resource.public_id).slice(1).toLowerCase()
+    : (resource.format || "").toLowerCase();
+  const basename = path.posix.basename(resource.public_id);
+
+  const data: JsonObject = {
+    cloudinary: { ...existing?.cloudinary, ...metadata },
+    mimeType: getAssetMimeType(resource, ext),
+    filesize: resource.bytes,
+    ...(resource.width && { width: resource.width }),
+    ...(resource.height && { height: resource.height }),
+  };
+
+  if (existing) {
+    if (!dryRun) {
+      await payload.update({
+        collection: slug,
+        id: existing.id,
+        data,
+        overrideAccess,
+        req,
+      });
+    }
+    result.updated += 1;
+    return;
+  }
+
+  let filename = isRaw ? basename : `${basename}.${ext}`;
+
+  // Filenames are unique per collection, but public IDs only per folder
+  const { totalDocs } = await payload.count({
+    collection: slug,
+    overrideAccess,
+    req,
+    where: { filename: { equals: filename } },
+  });
+  if (totalDocs > 0) {
+    const unique = resource.public_id.replace(/\//g, "-");
+    filename = isRaw ? unique : `${unique}.${ext}`;
+  }
+
+  // Assets inside the plugin folder keep their sub-folder as the prefix
+  const assetFolder = path.posix.dirname(resource.public_id);
+  const prefix =
+    assetFolder !== baseFolder && assetFolder.startsWith(`${baseFolder}/`)
+      ? assetFolder.slice(baseFolder.length + 1)
+      : undefined;
+
+  if (resource.resource_type === "image" && imageSizes.length > 0) {
+    data.sizes = getSizesData({
+      cloudName: cloudinary.cloudName,
+      filename,
+      imageSizes,
+      result: {
+        public_id: resource.public_id,
+        format: ext,
+        version: resource.version,
+        width: resource.width,
+        height: resource.height,
+        secure_url: resource.secure_url,
+        bytes: resource.bytes,
+      },
+      // Imported documents have no focal point yet
+      focus: getFocus(undefined, focalPoint),
+    });
+  }
+
+  if (!dryRun) {
+    await payload.create({
+      collection: slug,
+      data: { ...data, filename, ...(prefix && { prefix }) },
+      context: { [EXISTING_ASSET_CONTEXT]: true },
+      overrideAccess,
+      req,
+    });
+  }
+  result.created += 1;
+};
+
+/**
+ * Endpoint that runs a sync for the collection
+ *
+ * `POST /:collection/cloudinary-sync` with `{ folder?, tag?, dryRun?, limit? }`
+ *
+ * Only assets inside the collection's folder are imported, and documents
+ * are written with the access control of the current user
+ */
+export const getSyncEndpoint = ({
+  collection,
+  folder: baseFolder,
+  options,
+  syncAssets,
+}: {
+  collection: CollectionConfig;
+  /**
+   * Base folder of the collection's account
+   */
+  folder: string;
+  options: CloudinarySyncOptions;
+  syncAssets: ReturnType<typeof getSyncAssets>;
+}): Endpoint => ({
+  path: "/cloudinary-sync",
+  method: "post",
+  handler: async (req) => {
+    const allowed = options.access
+      ? await options.access({ collectionSlug: collection.slug, req })
+      : !!req.user;
+    if (!allowed) {
+      return Response.json(
+        {
+          errors: [{ message: "You are not allowed to perform this action." }],
+        },
+        { status: 403 },
+      );
+    }
+
+    const body = await readJSONBody(req);
+    const input = isRecord(body) ? body : {};
+    const folder =
+      typeof input.folder === "string" && input.folder
+        ? input.folder.replace(/\/+$/, "")
+        : undefined;
+    const tag =
+      typeof input.tag === "string" && input.tag ? input.tag : undefined;
+
+    // Quotes would let values break out of the expression
+    if ([folder, tag].some((value) => value && /["\\]/.test(value))) {
+      return Response.json(
+        { errors: [{ message: "Folders and tags can't contain quotes." }] },
+        { status: 400 },
+      );
+    }
+
+    if (
+      folder &&
+      (folder.split("/").some((segment) => segment === "..") ||
+        (folder !== baseFolder && !folder.startsWith(`${baseFolder}/`)))
+    ) {
+      return Response.json(
+        {
+          errors: [{ message: `The folder must be inside "${baseFolder}".` }],
+        },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const result = await syncAssets(req.payload, {
+        collection: collection.slug,
+        // Search expressions can't be passed through the endpoint
+        expression: [
+          ...(folder || tag ? [getSyncExpression({ folder, tag })] : []),
+          getFolderScope(baseFolder),
+        ].join(" AND "),
+        dryRun: input.dryRun === true,
+        limit: typeof input.limit === "number" ? input.limit : undefined,
+        req,
+        overrideAccess: false,
+      });
+      return Response.json(result, { status: 200 });
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error syncing Cloudinary assets",
+      });
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Something went wrong.",
+            },
+          ],
+        },
+        { status: 400 },
+      );
+    }
+  },
+});
@@ -0,0 +1,264 @@
+import type {
+  CloudinaryTransformation,
+  CloudinaryTransformationPresets,
+} from "./types";
+
+const CROP_MODES = [
+  "crop",
+  "fill",
+  "fill_pad",
+  "fit",
+  "lfill",
+  "limit",
+  "lpad",
+  "mfit",
+  "mpad",
+  "pad",
+  "scale",
+  "thumb",
+];
+
+// Crop modes that need at least one target dimension to do anything
+const SIZED_CROP_MODES = ["crop", "fill", "fill_pad", "lfill", "pad", "thumb"];
+
+const PRESET_KEYS: (keyof CloudinaryTransformation)[] = [
+  "crop",
+  "gravity",
+  "x",
+  "y",
+  "width",
+  "height",
+  "aspect_ratio",
+  "zoom",
+  "radius",
+  "background",
+  "dpr",
+  "effects",
+  "flags",
+  "format",
+  "quality",
+];
+
+// Values end up inside URL path segments, so separators are not allowed
+// ("#" would start a fragment: colors are written as `rgb:fff`)
+const SAFE_VALUE = /^[A-Za-z0-9_:.-]+$/;
+const PRESET_NAME = /^[A-Za-z0-9_-]+$/;
+
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isSafeValue = (value: unknown): boolean =>
+  (typeof value === "string" && SAFE_VALUE.test(value)) ||
+  (typeof value === "number" && Number.isFinite(value));
+
+/**
+ * Validate the configured transformation presets
+ * @param presets Named presets from the plugin options
+ * @throws Error listing every invalid preset option
+ */
+export const validateTransformationPresets = (
+  presets: CloudinaryTransformationPresets = {},
+): void => {
+  const errors: string[] = [];
+
+  Object.entries(presets).forEach(([name, preset]) => {
+    if (!PRESET_NAME.test(name)) {
+      errors.push(
+        `"${name}": preset names may only contain letters, numbers, "-" and "_"`,
+      );
+    }
+
+    if (!preset || typeof preset !== "object") {
+      errors.push(`"${name}": preset must be an object`);
+      return;
+    }
+
+    Object.keys(preset).forEach((key) => {
+      if (!PRESET_KEYS.includes(key as keyof CloudinaryTransformation)) {
+        errors.push(`"${name}": unknown option "${key}"`);
+      }
+    });
+
+    const {
+      crop,
+      gravity,
+      x,
+      y,
+      width,
+      height,
+      aspect_ratio,
+      zoom,
+      radius,
+      dpr,
+    } = preset;
+
+    if (crop !== undefined && !CROP_MODES.includes(crop)) {
+      errors.push(`"${name}": unsupported crop mode "${crop}"`);
+    }
+
+    if (gravity !== undefined) {
+      if (!crop) {
+        errors.push(`"${name}": gravity requires a crop mode`);
+      } else if (!isSafeValue(gravity)) {
+        errors.push(`"${name}": invalid gravity "${gravity}"`);
+      }
+    }
+
+    (
+      [
+        ["x", x],
+        ["y", y],
+      ] as const
+    ).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (gravity !== "xy_center") {
+        errors.push(`"${name}": ${key} requires the "xy_center" gravity`);
+      } else if (!isSafeValue(value) || Number(value) < 0) {
+        errors.push(`"${name}": ${key} must be a non-negative number`);
+      }
+    });
+
+    if (width !== undefined && !isPositiveNumber(width)) {
+      errors.push(`"${name}": width must be a positive number`);
+    }
+
+    if (height !== undefined && !isPositiveNumber(height)) {
+      errors.push(`"${name}": height must be a positive number`);
+    }
+
+    if (
+      crop &&
+      SIZED_CROP_MODES.includes(crop) &&
+      width === undefined &&
+      height === undefined &&
+      aspect_ratio === undefined
+    ) {
+      errors.push(
+        `"${name}": crop mode "${crop}" requires width, height or aspect_ratio`,
+      );
+    }
+
+    if (
+      aspect_ratio !== undefined &&
+      !isPositiveNumber(aspect_ratio) &&
+      !(
+        typeof aspect_ratio === "string" &&
+        /^\d+(\.\d+)?:\d+(\.\d+)?$/.test(aspect_ratio)
+      )
+    ) {
+      errors.push(
+        `"${name}": aspect_ratio must be a positive number or "w:h" string`,
+      );
+    }
+
+    if (zoom !== undefined && !isPositiveNumber(zoom)) {
+      errors.push(`"${name}": zoom must be a positive number`);
+    }
+
+    if (
+      radius !== undefined &&
+      radius !== "max" &&
+      !(typeof radius === "number" && radius >= 0)
+    ) {
+      errors.push(`"${name}": radius must be a number or "max"`);
+    }
+
+    if (dpr !== undefined && dpr !== "auto" && !isPositiveNumber(dpr)) {
+      errors.push(`"${name}": dpr must be a positive number or "auto"`);
+    }
+
+    (["background", "format", "quality"] as const).forEach((key) => {
+      if (preset[key] !== undefined && !isSafeValue(preset[key])) {
+        errors.push(`"${name}": invalid ${key} "${preset[key]}"`);
+      }
+    });
+
+    (["effects", "flags"] as const).forEach((key) => {
+      const values = preset[key];
+      if (values === undefined) return;
+      if (!Array.isArray(values) || !values.every(isSafeValue)) {
+        errors.push(`"${name}": ${key} must be an array of plain values`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid Cloudinary transformation presets:\n- ${errors.join("\n- ")}`,
+    );
+  }
+};
+
+/**
+ * Look up a named preset
+ * @throws Error when the preset is not configured
+ */
+export const getTransformationPreset = (
+  presets: CloudinaryTransformationPresets | undefined,
+  name: string,
+): CloudinaryTransformation => {
+  const preset = presets?.[name];
+  if (!preset) {
+    throw new Error(`Unknown Cloudinary transformation preset "${name}"`);
+  }
+  return preset;
+};
+
+type SegmentOptions = {
+  /**
+   * Kind of rendition being delivered
+   */
+  target: "image" | "video" | "pdf";
+
+  /**
+   * PDF page to render (only used for the pdf target)
+   */
+  page?: number;
+};
+
+/**
+ * Serialize a transformation into Cloudinary URL components
+ * e.g. `c_fill,g_auto,w_400,h_300/e_sharpen/f_auto,q_auto`
+ * @param transformation Preset to serialize (optional)
+ * @param options Rendition options
+ * @returns Transformation segment without leading or trailing slashes
+ */
+export const serializeTransformation = (
+  transformation: CloudinaryTransformation | undefined,
+  { target, page }: SegmentOptions,
+): string => {
+  const t = transformation || {};
+  const main: string[] = [];
+
+  if (target === "pdf") main.push(`pg_${page || 1}`);
+  if (t.crop) main.push(`c_${t.crop}`);
+  if (t.gravity) main.push(`g_${t.gravity}`);
+  if (t.x !== undefined) main.push(`x_${t.x}`);
+  if (t.y !== undefined) main.push(`y_${t.y}`);
+  if (t.width !== undefined) main.push(`w_${t.width}`);
+  if (t.height !== undefined) main.push(`h_${t.height}`);
+  if (t.aspect_ratio !== undefined) main.push(`ar_${t.aspect_ratio}`);
+  if (t.zoom !== undefined) main.push(`z_${t.zoom}`);
+  if (t.radius !== undefined) main.push(`r_${t.radius}`);
+  if (t.background) main.push(`b_${t.background}`);
+  if (t.dpr !== undefined) main.push(`dpr_${t.dpr}`);
+  if (t.flags?.length) main.push(`fl_${t.flags.join(".")}`);
+
+  const effects = (t.effects || []).map((effect) => `e_${effect}`);
+
+  // PDF pages are always rendered to a raster format
+  const defaultFormat = target === "pdf" ? "jpg" : "auto";
+  const delivery = [
+    `f_${t.format || defaultFormat}`,
+    `q_${t.quality || "auto"}`,
+  ];
+
+  // Effects are chained as their own components, so delivery goes last
+  if (effects.length > 0) {
+    return [main.join(","), ...effects, delivery.join(",")]
+      .filter(Boolean)
+      .join("/");
+  }
+
+  return [...main, ...delivery].join(",");
+};
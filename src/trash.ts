@@ -0,0 +1,576 @@
+import type {
+  BasePayload,
+  CollectionConfig,
+  CollectionSlug,
+  PayloadRequest,
+  TaskConfig,
+  TypeWithID,
+} from "payload";
+import type { CloudinaryClient } from "./client";
+import type { CloudinaryMetadata, CloudinaryTrashOptions } from "./types";
+
+import path from "path";
+import { EXISTING_ASSET_CONTEXT } from "./collections/Media/hooks";
+import { isRecord } from "./utils";
+
+export const DEFAULT_TRASH_FOLDER = "payload-trash";
+export const DEFAULT_TRASH_TAG = "payload-trash";
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_TRASH_COLLECTION = "cloudinary-trash";
+export const DEFAULT_TRASH_TASK_SLUG = "cloudinaryEmptyTrash";
+
+// Deleting the entry of a restored asset must not destroy the asset
+const RESTORE_CONTEXT = "cloudinaryTrashRestore";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type CloudinaryRestoreTrashArgs = {
+  /**
+   * ID of the trash entry
+   */
+  id: number | string;
+
+  /**
+   * Request to run the operations in (e.g. for transactions)
+   */
+  req?: PayloadRequest;
+
+  /**
+   * Skip the collections' access control; `false` applies it to `req.user`
+   * @default true
+   */
+  overrideAccess?: boolean;
+};
+
+type TrashEntry = {
+  id: number | string;
+  collectionSlug: string;
+  documentId?: string;
+  filename?: string;
+  public_id: string;
+  resource_type: string;
+  type: string;
+  asset_folder?: string;
+  trashed_public_id: string;
+  trashed_type: string;
+  document: Record<string, unknown>;
+  trashedAt: string;
+};
+
+type EmptyTrashTaskIO = {
+  input: { retentionDays?: number };
+  output: {
+    destroyed: number;
+    errors: { id: number | string; message: string }[];
+  };
+};
+
+type AssetLocation = {
+  public_id: string;
+  type: string;
+  /**
+   * Media Library folder to set (dynamic folder mode)
+   */
+  asset_folder?: string;
+};
+
+// Computed on read, not stored
+const READ_ONLY_KEYS = ["url", "thumbnailURL", "updatedAt", "responsive"];
+
+/**
+ * Move an asset to another public ID or delivery type and set its tags
+ * The asset is moved back when updating it fails
+ */
+const moveAsset = async (
+  cloudinary: CloudinaryClient,
+  resourceType: string,
+  from: AssetLocation,
+  to: AssetLocation,
+  getTags: (tags: string[]) => string[],
+): Promise<void> => {
+  const isMoved = from.public_id !== to.public_id || from.type !== to.type;
+  const result = isMoved
+    ? await cloudinary.rename(from.public_id, to.public_id, {
+        resource_type: resourceType,
+        type: from.type,
+        ...(to.type !== from.type && { to_type: to.type }),
+        invalidate: true,
+      })
+    : await cloudinary.resource(from.public_id, {
+        resource_type: resourceType,
+        type: from.type,
+      });
+
+  try {
+    await cloudinary.update(to.public_id, {
+      resource_type: resourceType,
+      type: to.type,
+      tags: getTags(result.tags || []),
+      ...(to.asset_folder !== undefined && { asset_folder: to.asset_folder }),
+    });
+  } catch (error) {
+    if (isMoved) {
+      await cloudinary.rename(to.public_id, from.public_id, {
+        resource_type: resourceType,
+        type: to.type,
+        ...(to.type !== from.type && { to_type: from.type }),
+      });
+    }
+    throw error;
+  }
+};
+
+const getTrashSlug = (options: CloudinaryTrashOptions) =>
+  (options.collectionSlug || DEFAULT_TRASH_COLLECTION) as CollectionSlug;
+
+const isTrashEntry = (doc: Record<string, unknown>): doc is TrashEntry =>
+  (typeof doc.id === "number" || typeof doc.id === "string") &&
+  typeof doc.collectionSlug === "string" &&
+  typeof doc.public_id === "string" &&
+  typeof doc.resource_type === "string" &&
+  typeof doc.type === "string" &&
+  typeof doc.trashed_public_id === "string" &&
+  typeof doc.trashed_type === "string" &&
+  isRecord(doc.document);
+
+/**
+ * Read a trash entry
+ * @throws Error when the document isn't a complete entry
+ */
+const findTrashEntry = async (
+  payload: BasePayload,
+  options: CloudinaryTrashOptions,
+  {
+    id,
+    req,
+    overrideAccess,
+  }: Pick<CloudinaryRestoreTrashArgs, "id" | "req" | "overrideAccess">,
+): Promise<TrashEntry> => {
+  const doc = await payload.findByID({
+    collection: getTrashSlug(options),
+    id,
+    depth: 0,
+    overrideAccess,
+    req,
+  });
+  if (!isTrashEntry(doc)) {
+    throw new Error(`Trash entry ${id} is incomplete`);
+  }
+  return doc;
+};
+
+interface TrashArgs {
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
+  doc: TypeWithID & { filename?: string };
+  metadata: Pick<CloudinaryMetadata, "public_id" | "resource_type" | "type">;
+  options: CloudinaryTrashOptions;
+  supportDynamicFolderMode?: boolean;
+  req: PayloadRequest;
+}
+
+/**
+ * Move the asset of a deleted document to the trash and record it, with a
+ * snapshot of the document to restore
+ */
+export const trashAsset = async ({
+  cloudinary,
+  collection,
+  doc,
+  metadata,
+  options,
+  supportDynamicFolderMode,
+  req,
+}: TrashArgs): Promise<void> => {
+  const tag = options.tag || DEFAULT_TRASH_TAG;
+  const original = {
+    public_id: metadata.public_id,
+    type: metadata.type || "upload",
+  };
+  const isFolderMode = options.mode !== "private";
+  const trashed = isFolderMode
+    ? {
+        public_id: path.posix.join(
+          options.folder || DEFAULT_TRASH_FOLDER,
+          original.public_id,
+        ),
+        type: original.type,
+      }
+    : { public_id: original.public_id, type: "private" };
+  const assetFolder = path.posix.dirname(original.public_id);
+
+  await moveAsset(
+    cloudinary,
+    metadata.resource_type,
+    original,
+    {
+      ...trashed,
+      ...(isFolderMode &&
+        supportDynamicFolderMode !== false && {
+          asset_folder: path.posix.dirname(trashed.public_id),
+        }),
+    },
+    (tags) => [...new Set([...tags, tag])],
+  );
+
+  const document = Object.fromEntries(
+    Object.entries(doc).filter(([key]) => !READ_ONLY_KEYS.includes(key)),
+  );
+
+  try {
+    await req.payload.create({
+      collection: getTrashSlug(options),
+      data: {
+        collectionSlug: collection.slug,
+        documentId: String(doc.id),
+        filename: doc.filename,
+        public_id: original.public_id,
+        resource_type: metadata.resource_type,
+        type: original.type,
+        asset_folder: assetFolder,
+        trashed_public_id: trashed.public_id,
+        trashed_type: trashed.type,
+        document,
+        trashedAt: new Date().toISOString(),
+      },
+      req,
+    });
+  } catch (error) {
+    // An unrecorded asset in the trash would never be emptied
+    await moveAsset(
+      cloudinary,
+      metadata.resource_type,
+      trashed,
+      {
+        ...original,
+        ...(isFolderMode &&
+          supportDynamicFolderMode !== false && { asset_folder: assetFolder }),
+      },
+      (tags) => tags.filter((existing) => existing !== tag),
+    );
+    throw error;
+  }
+};
+
+interface RestoreArgs {
+  getClient: (collectionSlug: string) => CloudinaryClient | undefined;
+  options: CloudinaryTrashOptions;
+  supportDynamicFolderMode?: boolean;
+}
+
+/**
+ * Restore a trashed asset and the document it belonged to
+ * The document is created again with its previous ID
+ */
+export const getRestoreTrash =
+  ({ getClient, options, supportDynamicFolderMode }: RestoreArgs) =>
+  async (
+    payload: BasePayload,
+    { id, req, overrideAccess = true }: CloudinaryRestoreTrashArgs,
+  ): Promise<TypeWithID & Record<string, unknown>> => {
+    const trashSlug = getTrashSlug(options);
+    const tag = options.tag || DEFAULT_TRASH_TAG;
+    const entry = await findTrashEntry(payload, options, {
+      id,
+      req,
+      overrideAccess,
+    });
+
+    const cloudinary = getClient(entry.collectionSlug);
+    if (!cloudinary) {
+      throw new Error(
+        `The "${entry.collectionSlug}" collection doesn't use Cloudinary storage`,
+      );
+    }
+
+    const isFolderMode = entry.trashed_public_id !== entry.public_id;
+    const trashed = {
+      public_id: entry.trashed_public_id,
+      type: entry.trashed_type,
+    };
+    const original = { public_id: entry.public_id, type: entry.type };
+    const setAssetFolder =
+      isFolderMode &&
+      supportDynamicFolderMode !== false &&
+      !!entry.asset_folder;
+
+    await moveAsset(
+      cloudinary,
+      entry.resource_type,
+      trashed,
+      {
+        ...original,
+        ...(setAssetFolder && { asset_folder: entry.asset_folder }),
+      },
+      (tags) => tags.filter((existing) => existing !== tag),
+    );
+
+    let doc: TypeWithID & Record<string, unknown>;
+    try {
+      doc = await payload.create({
+        collection: entry.collectionSlug as CollectionSlug,
+        data: entry.document,
+        context: { [EXISTING_ASSET_CONTEXT]: true },
+        overrideAccess,
+        req,
+      });
+    } catch (error) {
+      // Keep the asset in the trash while its document can't be restored
+      await moveAsset(
+        cloudinary,
+        entry.resource_type,
+        original,
+        {
+          ...trashed,
+          ...(setAssetFolder && {
+            asset_folder: path.posix.dirname(trashed.public_id),
+          }),
+        },
+        (tags) => [...new Set([...tags, tag])],
+      );
+      throw error;
+    }
+
+    await payload.delete({
+      collection: trashSlug,
+      id,
+      req,
+      context: { [RESTORE_CONTEXT]: true },
+    });
+
+    return doc;
+  };
+
+interface CollectionArgs {
+  getClient: (collectionSlug: string) => CloudinaryClient | undefined;
+  options: CloudinaryTrashOptions;
+  restoreTrash: ReturnType<typeof getRestoreTrash>;
+}
+
+/**
+ * Collection listing trashed assets
+ * Deleting an entry destroys its asset for good; entries are only created
+ * by the plugin
+ */
+export const getTrashCollection = ({
+  getClient,
+  options,
+  restoreTrash,
+}: CollectionArgs): CollectionConfig => ({
+  slug: getTrashSlug(options),
+  labels: { singular: "Trashed asset", plural: "Trashed assets" },
+  admin: {
+    useAsTitle: "filename",
+    defaultColumns: ["filename", "collectionSlug", "trashedAt"],
+    description:
+      "Assets of deleted documents. Restore them, or delete them to destroy the asset in Cloudinary.",
+  },
+  access: {
+    create: () => false,
+    update: () => false,
+  },
+  hooks: {
+    beforeDelete: [
+      async ({ id, req, context }) => {
+        if (context?.[RESTORE_CONTEXT]) return;
+
+        const entry = await findTrashEntry(req.payload, options, { id, req });
+        const cloudinary = getClient(entry.collectionSlug);
+        if (!cloudinary) return;
+
+        // Entries stay until their asset is gone, so failures are retried
+        const result = await cloudinary.destroy(entry.trashed_public_id, {
+          resource_type: entry.resource_type,
+          type: entry.trashed_type,
+          invalidate: true,
+        });
+        if (!["ok", "not found"].includes(result?.result)) {
+          throw new Error(
+            `Cloudinary could not destroy ${entry.trashed_public_id}: ${result?.result}`,
+          );
+        }
+      },
+    ],
+  },
+  endpoints: [
+    {
+      path: "/:id/restore",
+      method: "post",
+      handler: async (req) => {
+        const allowed = options.access
+          ? await options.access({ req })
+          : !!req.user;
+        if (!allowed) {
+          return Response.json(
+            {
+              errors: [
+                { message: "You are not allowed to perform this action." },
+              ],
+            },
+            { status: 403 },
+          );
+        }
+
+        const id = req.routeParams?.id as string | undefined;
+        if (!id) {
+          return Response.json(
+            { errors: [{ message: "A trash entry ID is required." }] },
+            { status: 400 },
+          );
+        }
+
+        try {
+          const doc = await restoreTrash(req.payload, {
+            id,
+            req,
+            overrideAccess: false,
+          });
+          return Response.json({ doc }, { status: 200 });
+        } catch (error) {
+          req.payload.logger.error({
+            error,
+            message: "Error restoring trashed Cloudinary asset",
+            id,
+          });
+          return Response.json(
+            {
+              errors: [
+                {
+                  message:
+                    error instanceof Error
+                      ? error.message
+                      : "Something went wrong.",
+                },
+              ],
+            },
+            { status: (error as { status?: number })?.status || 500 },
+          );
+        }
+      },
+    },
+  ],
+  fields: [
+    {
+      name: "restore",
+      type: "ui",
+      admin: {
+        position: "sidebar",
+        components: {
+          Field: "payload-cloudinary/client#RestoreTrashButton",
+        },
+      },
+    },
+    {
+      name: "filename",
+      type: "text",
+      admin: { readOnly: true },
+    },
+    {
+      name: "collectionSlug",
+      label: "Collection",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "documentId",
+      label: "Document ID",
+      type: "text",
+      admin: { readOnly: true },
+    },
+    {
+      name: "trashedAt",
+      type: "date",
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        date: { pickerAppearance: "dayAndTime" },
+      },
+    },
+    {
+      name: "public_id",
+      label: "Public ID",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "resource_type",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "type",
+      label: "Delivery type",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "asset_folder",
+      type: "text",
+      admin: { readOnly: true },
+    },
+    {
+      name: "trashed_public_id",
+      label: "Trashed public ID",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "trashed_type",
+      label: "Trashed delivery type",
+      type: "text",
+      required: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: "document",
+      type: "json",
+      required: true,
+      admin: { readOnly: true },
+    },
+  ],
+});
+
+/**
+ * Job task destroying the assets trashed more than `retentionDays` ago
+ *
+ * Queue it with `payload.jobs.queue({ task: 'cloudinaryEmptyTrash', input: {} })`
+ */
+export const getEmptyTrashTask = ({
+  options,
+}: {
+  options: CloudinaryTrashOptions;
+}): TaskConfig<EmptyTrashTaskIO> => ({
+  slug: options.taskSlug || DEFAULT_TRASH_TASK_SLUG,
+  label: "Empty the Cloudinary trash",
+  inputSchema: [{ name: "retentionDays", type: "number" }],
+  outputSchema: [
+    { name: "destroyed", type: "number" },
+    { name: "errors", type: "json" },
+  ],
+  handler: async ({ input, req }) => {
+    const retentionDays =
+      typeof input?.retentionDays === "number"
+        ? input.retentionDays
+        : (options.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+    const cutoff = new Date(Date.now() - retentionDays * DAY).toISOString();
+
+    const { docs, errors } = await req.payload.delete({
+      collection: getTrashSlug(options),
+      where: { trashedAt: { less_than_equal: cutoff } },
+      req,
+    });
+
+    return {
+      output: {
+        destroyed: docs.length,
+        errors: errors.map(({ id, message }) => ({ id, message })),
+      },
+    };
+  },
+});
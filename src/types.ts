@@ -3,14 +3,32 @@ import type {
   CollectionOptions,
   GenerateURL,
 } from "@payloadcms/plugin-cloud-storage/types";
-import type { Plugin, UploadCollectionSlug, Field } from "payload";
+import type {
+  Plugin,
+  UploadCollectionSlug,
+  Field,
+  JsonObject,
+  PayloadRequest,
+} from "payload";
+import type { UploadApiOptions } from "cloudinary";
+import type { CloudinaryClient } from "./client";
 
 // Define a simplified PayloadDocument type for use with thumbnails
 export interface PayloadDocument {
   id?: string;
   filename?: string;
   cloudinary?: CloudinaryMetadata;
-  sizes?: Record<string, { url: string; width: number; height: number }>;
+  sizes?: Record<
+    string,
+    {
+      url: string;
+      width: number;
+      height: number;
+      filename?: string;
+      filesize?: number;
+      mimeType?: string;
+    }
+  >;
   [key: string]: any;
 }
 
@@ -19,6 +37,7 @@ export type GenerateURLParams = Parameters<GenerateURL>[0] & {
   version?: string | number;
   pdf_page?: number; // Page number for PDF thumbnails
   format?: string; // Target format for conversion
+  transformation?: string; // Name of a configured transformation preset
 };
 
 export type CloudinaryURLResponse = {
@@ -37,6 +56,7 @@ declare module "@payloadcms/plugin-cloud-storage/types" {
     version?: string | number;
     pdf_page?: number; // Page number for PDF thumbnails
     format?: string; // Target format for conversion
+    transformation?: string; // Name of a configured transformation preset
   }
 }
 
@@ -65,6 +85,32 @@ export type CloudinaryVersioningOptions = {
    * @default false
    */
   storeHistory?: boolean;
+
+  /**
+   * How much version history to keep
+   * The current version is never pruned
+   */
+  retention?: {
+    /**
+     * Maximum number of history entries to keep
+     */
+    maxVersions?: number;
+
+    /**
+     * Maximum age in days of history entries
+     */
+    maxAgeDays?: number;
+  };
+};
+
+/**
+ * An entry of the `versions` field
+ */
+export type CloudinaryVersionEntry = {
+  version: string;
+  version_id: string;
+  created_at: string;
+  secure_url: string;
 };
 
 /**
@@ -104,12 +150,591 @@ export type PublicIDOptions = {
   ) => string;
 };
 
+export type CloudinaryImageSizesOptions = {
+  /**
+   * Whether to populate `sizes` from Cloudinary derived transformations
+   * for collections that declare `upload.imageSizes`
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Whether to generate the derivatives during upload
+   * Eager sizes store exact dimensions and file sizes; lazy sizes are
+   * generated by Cloudinary on first request
+   * @default false
+   */
+  eager?: boolean;
+};
+
+export type CloudinaryClientUploadsOptions = {
+  /**
+   * Who may request signed upload params and finalize uploads
+   * Defaults to any authenticated user
+   */
+  access?: (args: {
+    collectionSlug: string;
+    req: PayloadRequest;
+  }) => boolean | Promise<boolean>;
+};
+
+export type CloudinarySyncOptions = {
+  /**
+   * Who may run a sync through the endpoint
+   * Defaults to any authenticated user
+   */
+  access?: (args: {
+    collectionSlug: string;
+    req: PayloadRequest;
+  }) => boolean | Promise<boolean>;
+};
+
+export type CloudinaryModerationOptions = {
+  /**
+   * Cloudinary moderation kind: `manual` or an add-on such as `aws_rek`
+   * @default 'manual'
+   */
+  kind?: string;
+  /**
+   * Deliver pending assets instead of blocking them until approved
+   * Rejected assets are always blocked
+   * @default false
+   */
+  deliverPending?: boolean;
+  /**
+   * URL returned by `generateURL` for blocked assets
+   * @default ''
+   */
+  placeholderURL?: string;
+  /**
+   * Who may approve or reject assets, and still view blocked files
+   * Defaults to any authenticated user
+   */
+  access?: (args: {
+    collectionSlug: string;
+    req: PayloadRequest;
+  }) => boolean | Promise<boolean>;
+};
+
+export type CloudinaryAutoTaggingOptions = {
+  /**
+   * Categorization add-ons labelling the image, e.g. `aws_rek_tagging`
+   * @default 'google_tagging'
+   */
+  categorization?: string | string[];
+  /**
+   * Detection add-ons, e.g. `coco_v2`; `captioning` suggests the caption
+   * @default 'captioning'
+   */
+  detection?: string | string[];
+  /**
+   * Minimum confidence (0 to 1) of the labels added to the asset's tags
+   * `false` only stores the labels
+   * @default 0.6
+   */
+  threshold?: number | false;
+  /**
+   * Name of the field pre-filled with the suggested caption when empty
+   * `false` leaves it to editors
+   * @default 'alt'
+   */
+  altField?: string | false;
+  /**
+   * Who may re-run the analysis of existing documents
+   * Defaults to any authenticated user
+   */
+  access?: (args: {
+    collectionSlug: string;
+    req: PayloadRequest;
+  }) => boolean | Promise<boolean>;
+};
+
+/**
+ * Value mapped to Cloudinary: the path of a document field (e.g. `alt`,
+ * `category.title`) or a function of the document
+ * Arrays, such as `hasMany` relationships, map to every item
+ */
+export type CloudinaryMappedValue =
+  | string
+  | ((args: {
+      doc: JsonObject;
+      req: PayloadRequest;
+    }) => unknown | Promise<unknown>);
+
+export type CloudinaryMetadataMapping = {
+  /**
+   * Values added to the asset's tags
+   */
+  tags?: CloudinaryMappedValue[];
+  /**
+   * Contextual metadata, by key
+   */
+  context?: Record<string, CloudinaryMappedValue>;
+  /**
+   * Structured metadata, by the external ID of the metadata field
+   */
+  metadata?: Record<string, CloudinaryMappedValue>;
+  /**
+   * Who may pull tags, context and metadata edited in Cloudinary
+   * Defaults to any authenticated user
+   */
+  access?: (args: {
+    collectionSlug: string;
+    req: PayloadRequest;
+  }) => boolean | Promise<boolean>;
+};
+
+export type CloudinaryReconcileOptions = {
+  /**
+   * Slug of the registered job task
+   * @default 'cloudinaryReconcile'
+   */
+  taskSlug?: string;
+};
+
+export type CloudinaryRenameOptions = {
+  /**
+   * Replace an asset already stored at the new public ID
+   * Otherwise the save fails with a validation error
+   * @default false
+   */
+  overwrite?: boolean;
+  /**
+   * Invalidate CDN cached copies of the previous public ID
+   * @default true
+   */
+  invalidate?: boolean;
+};
+
+export type CloudinaryTrashOptions = {
+  /**
+   * `folder` moves deleted assets under the trash `folder`; `private` keeps
+   * their public ID and switches them to private delivery
+   * @default 'folder'
+   */
+  mode?: "folder" | "private";
+  /**
+   * Cloudinary folder of trashed assets, outside of the plugin `folder`
+   * @default 'payload-trash'
+   */
+  folder?: string;
+  /**
+   * Tag added to trashed assets
+   * @default 'payload-trash'
+   */
+  tag?: string;
+  /**
+   * Days before the empty trash task destroys a trashed asset
+   * @default 30
+   */
+  retentionDays?: number;
+  /**
+   * Slug of the collection listing trashed assets
+   * @default 'cloudinary-trash'
+   */
+  collectionSlug?: string;
+  /**
+   * Slug of the registered job task
+   * @default 'cloudinaryEmptyTrash'
+   */
+  taskSlug?: string;
+  /**
+   * Who may restore trashed documents
+   * Defaults to any authenticated user
+   */
+  access?: (args: { req: PayloadRequest }) => boolean | Promise<boolean>;
+};
+
+export type CloudinaryVideoOptions = {
+  /**
+   * Adaptive streaming manifests to generate, with the streaming profile
+   * `true` generates HLS with the `auto` profile
+   * @default true
+   */
+  streaming?:
+    | boolean
+    | {
+        /**
+         * @default ['hls']
+         */
+        formats?: ("hls" | "dash")[];
+        /**
+         * Cloudinary streaming profile, e.g. `auto`, `hd` or `full_hd`
+         * @default 'auto'
+         */
+        profile?: string;
+      };
+
+  /**
+   * Poster frame, used as the admin thumbnail of videos
+   * @default true
+   */
+  poster?:
+    | boolean
+    | {
+        /**
+         * Start offset of the frame in seconds, `"10p"` for a percentage
+         * of the duration or `"auto"` to let Cloudinary pick
+         * @default 0
+         */
+        offset?: number | string;
+        /**
+         * @default 'jpg'
+         */
+        format?: string;
+      };
+
+  /**
+   * Add a `captions` array of caption and subtitle tracks to video
+   * documents, with the files stored in an upload collection
+   */
+  captions?: {
+    relationTo: string;
+  };
+};
+
+export type CloudinaryResourceType = "image" | "video" | "raw";
+
+/**
+ * Resource types keyed by MIME type (`image/x-icon`), MIME type class
+ * (`model/*`) or extension (`.dwg`)
+ */
+export type CloudinaryResourceTypeMapping = Record<
+  string,
+  CloudinaryResourceType
+>;
+
+export type CloudinaryAudioOptions = {
+  /**
+   * Waveform image, used as the admin thumbnail of audio files
+   * Colors are Cloudinary color values, e.g. `white` or `rgb:1f2937`
+   * @default true
+   */
+  waveform?:
+    | boolean
+    | {
+        /**
+         * @default 'white'
+         */
+        color?: string;
+        /**
+         * @default 'black'
+         */
+        background?: string;
+        /**
+         * @default 600
+         */
+        width?: number;
+        /**
+         * @default 200
+         */
+        height?: number;
+        /**
+         * @default 'png'
+         */
+        format?: string;
+      };
+};
+
+export type CloudinaryFocalPointOptions = {
+  /**
+   * Gravity of cropped renditions of documents without a focal point,
+   * e.g. `auto` or `face`
+   * When unset, those renditions keep their default gravity
+   */
+  fallbackGravity?: string;
+};
+
+export type CloudinaryResponsiveOptions = {
+  /**
+   * Widths of the `srcset` candidates; widths larger than the original are
+   * left out
+   * @default [320, 640, 960, 1280, 1920, 2560]
+   */
+  widths?: number[];
+
+  /**
+   * Slot sizes below viewport widths, e.g. `{ maxWidth: 768, size: '100vw' }`
+   */
+  breakpoints?: { maxWidth: number; size: string }[];
+
+  /**
+   * Slot size when no breakpoint matches
+   * @default '100vw'
+   */
+  sizes?: string;
+
+  /**
+   * Formats of the `<picture>` sources, in order of preference
+   * @default ['avif', 'webp']
+   */
+  formats?: string[];
+
+  /**
+   * Format of `src`, `srcset` and the last `<picture>` source
+   * @default 'png' for PNG originals, 'jpg' otherwise
+   */
+  fallbackFormat?: string;
+
+  /**
+   * Name of a transformation preset applied to every width
+   */
+  transformation?: string;
+};
+
+export type CloudinaryWebhooksOptions = {
+  /**
+   * Path of the notification endpoint, relative to the API route
+   * @default '/cloudinary-webhook'
+   */
+  path?: string;
+
+  /**
+   * Public URL of the notification endpoint
+   * When set, uploads ask Cloudinary to notify it about eager derivatives
+   */
+  notificationURL?: string;
+
+  /**
+   * Seconds a signed notification stays valid
+   * @default 7200
+   */
+  validFor?: number;
+
+  /**
+   * Signature algorithm configured on the Cloudinary account
+   * @default 'sha1'
+   */
+  signatureAlgorithm?: "sha1" | "sha256";
+};
+
+/**
+ * A reusable set of Cloudinary transformation parameters
+ */
+export type CloudinaryTransformation = {
+  /**
+   * Crop / resize mode (c_)
+   */
+  crop?:
+    | "crop"
+    | "fill"
+    | "fill_pad"
+    | "fit"
+    | "lfill"
+    | "limit"
+    | "lpad"
+    | "mfit"
+    | "mpad"
+    | "pad"
+    | "scale"
+    | "thumb";
+
+  /**
+   * Gravity used when cropping, e.g. `auto`, `face`, `north_east` (g_)
+   */
+  gravity?: string;
+
+  /**
+   * Horizontal position for `xy_center` gravity, in pixels or as a relative
+   * `"0.5"` string (x_)
+   */
+  x?: number | string;
+
+  /**
+   * Vertical position for `xy_center` gravity, in pixels or as a relative
+   * `"0.5"` string (y_)
+   */
+  y?: number | string;
+
+  /**
+   * Target width in pixels (w_)
+   */
+  width?: number;
+
+  /**
+   * Target height in pixels (h_)
+   */
+  height?: number;
+
+  /**
+   * Aspect ratio as a number or `"16:9"` string (ar_)
+   */
+  aspect_ratio?: number | string;
+
+  /**
+   * Zoom applied with face/custom gravity (z_)
+   */
+  zoom?: number;
+
+  /**
+   * Corner radius in pixels or `"max"` (r_)
+   */
+  radius?: number | "max";
+
+  /**
+   * Background color for padding modes, e.g. `white` or `rgb:000000` (b_)
+   */
+  background?: string;
+
+  /**
+   * Device pixel ratio (dpr_)
+   */
+  dpr?: number | "auto";
+
+  /**
+   * Effects applied in order, e.g. `["sharpen", "blur:300"]` (e_)
+   */
+  effects?: string[];
+
+  /**
+   * Delivery flags, e.g. `["progressive"]` (fl_)
+   */
+  flags?: string[];
+
+  /**
+   * Delivery format
+   * @default 'auto' ('jpg' for PDF pages)
+   */
+  format?: string;
+
+  /**
+   * Delivery quality
+   * @default 'auto'
+   */
+  quality?: string | number;
+};
+
+/**
+ * Named transformation presets, e.g. `{ card: { crop: 'fill', width: 400 } }`
+ */
+export type CloudinaryTransformationPresets = Record<
+  string,
+  CloudinaryTransformation
+>;
+
+/**
+ * Cloudinary delivery type
+ * `authenticated` and `private` assets are only reachable through signed URLs
+ */
+export type CloudinaryDeliveryType = "upload" | "authenticated" | "private";
+
+/**
+ * How the collection file route serves files
+ * - `proxy` streams the file through Payload
+ * - `redirect` responds with a redirect to the Cloudinary URL
+ */
+export type CloudinaryStaticHandlerMode = "proxy" | "redirect";
+
+export type CloudinaryCollectionOptions = Omit<CollectionOptions, "adapter"> & {
+  /**
+   * Delivery type used for uploads in this collection
+   * @default 'upload'
+   */
+  deliveryType?: CloudinaryDeliveryType;
+
+  /**
+   * Lifetime in seconds of the download URLs of `authenticated` and
+   * `private` originals. Signed delivery URLs of transformed renditions
+   * don't expire
+   * @default 3600
+   */
+  signedURLExpiresIn?: number;
+
+  /**
+   * Cache-Control header of files served through the collection file route
+   * @default 'public, max-age=86400' ('private, no-cache' for restricted delivery types)
+   */
+  cacheControl?: string;
+
+  /**
+   * How the file route serves this collection's files
+   * Overrides the plugin-level `staticHandlerMode`
+   */
+  staticHandlerMode?: CloudinaryStaticHandlerMode;
+
+  /**
+   * Cloudinary account of this collection
+   * Overrides the plugin-level `config`; the collection gets its own client
+   */
+  config?: CloudinaryConfig;
+
+  /**
+   * Folder path in Cloudinary for this collection's files
+   * Overrides the plugin-level `folder`
+   */
+  folder?: string;
+
+  /**
+   * Upload options applied to this collection's uploads
+   * Merged over the plugin-level `uploadOptions`
+   */
+  uploadOptions?: CloudinaryUploadDefaults;
+
+  /**
+   * Constraints on this collection's uploads
+   * Checked before uploading where possible and against Cloudinary's
+   * response afterwards; violating uploads are rolled back
+   */
+  limits?: CloudinaryUploadLimits;
+
+  /**
+   * Queue this collection's uploads for moderation
+   * Pending and rejected assets aren't delivered; `true` uses manual moderation
+   */
+  moderation?: boolean | CloudinaryModerationOptions;
+
+  /**
+   * Document fields sent to Cloudinary as tags, context and structured
+   * metadata, on upload and whenever the document changes
+   */
+  metadataMapping?: CloudinaryMetadataMapping;
+
+  /**
+   * Label images and suggest their alt text with Cloudinary add-ons
+   * `true` uses Google tagging and captioning
+   */
+  autoTagging?: boolean | CloudinaryAutoTaggingOptions;
+};
+
+export type CloudinaryUploadLimits = {
+  /**
+   * Maximum file size in bytes
+   */
+  maxBytes?: number;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  /**
+   * Maximum duration in seconds of videos and audio files
+   */
+  maxDuration?: number;
+  /**
+   * Maximum page count of PDFs
+   */
+  maxPages?: number;
+  /**
+   * Allowed formats, e.g. `['jpg', 'png', 'webp']` (`jpeg` matches `jpg`)
+   */
+  allowedFormats?: string[];
+};
+
+/**
+ * Default Cloudinary upload options (e.g. `tags`, `context`, `upload_preset`)
+ * They override the per-file-type defaults, but not the public ID, folder
+ * and delivery type the plugin sets
+ */
+export type CloudinaryUploadDefaults = Omit<
+  UploadApiOptions,
+  "public_id" | "asset_folder" | "folder" | "type" | "api_key" | "api_secret"
+>;
+
 export type CloudinaryStorageOptions = {
   /**
    * Collection options to apply the Cloudinary adapter to.
    */
   collections: Partial<
-    Record<UploadCollectionSlug, Omit<CollectionOptions, "adapter"> | true>
+    Record<UploadCollectionSlug, CloudinaryCollectionOptions | true>
   >;
 
   /**
@@ -123,6 +748,11 @@ export type CloudinaryStorageOptions = {
    */
   folder?: string;
 
+  /**
+   * Upload options applied to every upload
+   */
+  uploadOptions?: CloudinaryUploadDefaults;
+
   /**
    * Whether or not to disable local storage
    * @default true
@@ -145,6 +775,14 @@ export type CloudinaryStorageOptions = {
    */
   publicID?: PublicIDOptions;
 
+  /**
+   * Replacing the file of an existing document overwrites its public ID
+   * (and invalidates the CDN) instead of uploading a new asset
+   * Always on with versioning, which restores the overwritten versions
+   * @default true
+   */
+  overwriteOnReplace?: boolean;
+
   /**
    * Support for Dynamic Folder Mode
    * When true, uses asset_folder parameter in upload to ensure correct folder display in Media Library
@@ -163,6 +801,113 @@ export type CloudinaryStorageOptions = {
    * @default true
    */
   enablePDFThumbnails?: boolean;
+
+  /**
+   * Named transformation presets
+   * Request them with the `transformation` param of generateURL or the
+   * `?transformation=<name>` query string on the collection file route
+   */
+  transformations?: CloudinaryTransformationPresets;
+
+  /**
+   * Image size options
+   * Each `upload.imageSizes` entry is delivered as a Cloudinary derivative
+   */
+  imageSizes?: CloudinaryImageSizesOptions;
+
+  /**
+   * Enable direct browser-to-Cloudinary uploads
+   * Registers `cloudinary-upload/sign` and `cloudinary-upload/finalize`
+   * endpoints on every configured collection
+   * @default false
+   */
+  clientUploads?: boolean | CloudinaryClientUploadsOptions;
+
+  /**
+   * How the collection file route serves files
+   * `redirect` skips proxying and the Cloudinary Admin API entirely
+   * @default 'proxy'
+   */
+  staticHandlerMode?: CloudinaryStaticHandlerMode;
+
+  /**
+   * Register an endpoint for Cloudinary notification callbacks
+   * Updates eager results, moderation status and out-of-band deletes
+   * @default false
+   */
+  webhooks?: boolean | CloudinaryWebhooksOptions;
+
+  /**
+   * Enable importing existing Cloudinary assets into collections
+   * Registers a `cloudinary-sync` endpoint on every configured collection
+   * and allows creating documents without a file
+   * @default false
+   */
+  sync?: boolean | CloudinarySyncOptions;
+
+  /**
+   * Register a job task that reconciles the assets under `folder` with the
+   * documents of the configured collections
+   * @default false
+   */
+  reconcile?: boolean | CloudinaryReconcileOptions;
+
+  /**
+   * Rename (and move) Cloudinary assets when the `prefix` or `filename` of
+   * an existing document changes, so its public ID follows the document
+   * @default false
+   */
+  rename?: boolean | CloudinaryRenameOptions;
+
+  /**
+   * Move the assets of deleted documents to a trash instead of destroying
+   * them, and register a job task destroying them after `retentionDays`
+   * @default false
+   */
+  trash?: boolean | CloudinaryTrashOptions;
+
+  /**
+   * Generate adaptive streaming manifests and a poster frame for videos
+   * and store their URLs in the `cloudinary` group
+   * @default false
+   */
+  video?: boolean | CloudinaryVideoOptions;
+
+  /**
+   * Waveform image of audio files (mp3, wav, m4a, flac...)
+   * Audio files are always uploaded as Cloudinary `video` resources with
+   * their duration, bit rate, channels and codec stored
+   */
+  audio?: CloudinaryAudioOptions;
+
+  /**
+   * Override the resource type files are uploaded as
+   * Files are otherwise classified by the MIME type sniffed from their
+   * bytes, the declared MIME type and then their extension
+   */
+  resourceTypes?: CloudinaryResourceTypeMapping;
+
+  /**
+   * Crop renditions around the document's focal point (`focalX`/`focalY`)
+   * Applies to image sizes, presets, admin thumbnails and responsive images
+   * @default false
+   */
+  focalPoint?: boolean | CloudinaryFocalPointOptions;
+
+  /**
+   * Add a virtual `responsive` field with `srcset`, `sizes` and `<picture>`
+   * sources to the documents of every configured collection
+   * The options are the defaults of `getCloudinaryResponsiveImage` too
+   * @default false
+   */
+  responsive?: boolean | CloudinaryResponsiveOptions;
+
+  /**
+   * Client used for every Cloudinary call
+   * Defaults to a client backed by the Cloudinary SDK and `config`
+   * Collections with their own `config` always get their own SDK client
+   */
+  client?: CloudinaryClient;
 };
 
 export type CloudinaryStoragePlugin = (
@@ -171,6 +916,7 @@ export type CloudinaryStoragePlugin = (
 
 export type CloudinaryMetadata = {
   public_id: string;
+  asset_id?: string;
   resource_type: string;
   format: string;
   secure_url: string;
@@ -185,7 +931,22 @@ export type CloudinaryMetadata = {
   pages?: number;
   selected_page?: number;
   thumbnail_url?: string;
+  streaming_url?: string;
+  dash_url?: string;
+  poster_url?: string;
+  bit_rate?: number;
+  channels?: number;
+  audio_codec?: string;
+  sample_rate?: number;
+  waveform_url?: string;
   type?: string;
+  moderation_status?: string;
+  deleted_at?: string;
+  tags?: string[];
+  context?: Record<string, string>;
+  metadata?: Record<string, unknown>;
+  labels?: string[];
+  caption?: string;
 };
 
 export type CloudinaryAdapter = Adapter;
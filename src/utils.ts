@@ -1,12 +1,72 @@
 import {
+  AUDIO_EXTENSIONS,
   IMAGE_EXTENSIONS,
   RAW_EXTENSIONS,
   VIDEO_EXTENSIONS,
 } from "./constants";
+import type { PayloadRequest } from "payload";
+import type {
+  CloudinaryCollectionOptions,
+  CloudinaryStorageOptions,
+} from "./types";
 
 export const getResourceType = (ext: string) => {
   if (VIDEO_EXTENSIONS.includes(ext)) return "video";
+  // Cloudinary treats audio as video without a visual track
+  if (AUDIO_EXTENSIONS.includes(ext)) return "video";
   if (IMAGE_EXTENSIONS.includes(ext)) return "image";
   if (RAW_EXTENSIONS.includes(ext)) return "raw";
   return "auto"; // Default to auto for unknown types
 };
+
+/**
+ * Get the options of a configured collection (`true` means defaults)
+ */
+export const getCollectionOptions = (
+  collections: CloudinaryStorageOptions["collections"],
+  slug: string,
+): CloudinaryCollectionOptions => {
+  const options = collections[slug as keyof typeof collections];
+  return options && options !== true ? options : {};
+};
+
+/**
+ * Check if a value is a plain object
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Read the JSON body of an endpoint request
+ * Missing or malformed bodies read as `undefined`
+ */
+export const readJSONBody = async (req: PayloadRequest): Promise<unknown> => {
+  try {
+    return await req.json?.();
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Parse `key=value|key=value` strings, unescaping `\=` and `\|`
+ */
+const parseContextString = (context: string): Record<string, string> =>
+  Object.fromEntries(
+    context
+      .split(/(?<!\\)\|/)
+      .map((pair) => pair.split(/(?<!\\)=/))
+      .filter(([key, value]) => key && value !== undefined)
+      .map(([key, value]) => [key, value.replace(/\\([=|])/g, "$1")]),
+  );
+
+/**
+ * Read context or metadata upload options, which take
+ * `key=value|key=value` strings or objects
+ */
+export const toRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === "string"
+    ? parseContextString(value)
+    : isRecord(value)
+      ? value
+      : {};
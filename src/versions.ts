@@ -0,0 +1,216 @@
+import type { CollectionConfig, Endpoint } from "payload";
+import type { CloudinaryClient } from "./client";
+import type {
+  CloudinaryMetadata,
+  CloudinaryVersionEntry,
+  CloudinaryVersioningOptions,
+} from "./types";
+
+import { isRecord, readJSONBody } from "./utils";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply the retention policy to a version history
+ * The current version is always kept
+ * @param versions Version history, oldest first
+ * @param retention Retention options
+ * @param currentVersion Version that must never be pruned
+ * @returns The entries to keep
+ */
+export const pruneVersionHistory = (
+  versions: CloudinaryVersionEntry[],
+  retention: CloudinaryVersioningOptions["retention"],
+  currentVersion?: string,
+): CloudinaryVersionEntry[] => {
+  if (!retention) return versions;
+
+  const { maxVersions, maxAgeDays } = retention;
+  const minCreatedAt = maxAgeDays ? Date.now() - maxAgeDays * DAY_IN_MS : 0;
+
+  let kept = versions.filter(
+    (entry) =>
+      entry.version === currentVersion ||
+      !minCreatedAt ||
+      new Date(entry.created_at).getTime() >= minCreatedAt,
+  );
+
+  if (maxVersions && kept.length > maxVersions) {
+    // Drop the oldest entries, but never the current version
+    const overflow = kept.length - maxVersions;
+    const removable = kept
+      .filter((entry) => entry.version !== currentVersion)
+      .slice(0, overflow);
+    kept = kept.filter((entry) => !removable.includes(entry));
+  }
+
+  return kept;
+};
+
+/**
+ * Build a history entry from a Cloudinary upload or restore result
+ */
+export const getVersionEntry = (result: {
+  version?: number | string;
+  version_id?: string;
+  created_at?: string;
+  secure_url?: string;
+}): CloudinaryVersionEntry => ({
+  // Store version as a string to match the field type expectation
+  version: result.version ? String(result.version) : "",
+  version_id: result.version_id || "",
+  created_at: result.created_at || new Date().toISOString(),
+  secure_url: result.secure_url || "",
+});
+
+/**
+ * Find a history entry by version number or version ID
+ */
+export const findVersionEntry = (
+  versions: CloudinaryVersionEntry[] | undefined,
+  version: string | number,
+): CloudinaryVersionEntry | undefined =>
+  (versions || []).find(
+    (entry) =>
+      entry.version === String(version) || entry.version_id === version,
+  );
+
+/**
+ * URL of a previous version of an asset
+ * Cloudinary only serves the current bytes on delivery URLs, so older
+ * versions are fetched from the backup through a signed download URL
+ */
+export const getBackedUpVersionURL = (
+  cloudinary: CloudinaryClient,
+  metadata: Pick<CloudinaryMetadata, "asset_id">,
+  entry: CloudinaryVersionEntry,
+): string | undefined => {
+  if (!metadata.asset_id || !entry.version_id) return undefined;
+  return cloudinary.backedUpAssetURL(metadata.asset_id, entry.version_id);
+};
+
+interface RestoreArgs {
+  cloudinary: CloudinaryClient;
+  collection: CollectionConfig;
+  versioning: CloudinaryVersioningOptions;
+}
+
+/**
+ * Endpoint that makes a previous version current again
+ *
+ * `POST /:collection/:id/cloudinary-restore` with `{ version_id }`
+ */
+export const getRestoreVersionEndpoint = ({
+  cloudinary,
+  collection,
+  versioning,
+}: RestoreArgs): Endpoint => ({
+  path: "/:id/cloudinary-restore",
+  method: "post",
+  handler: async (req) => {
+    const id = req.routeParams?.id as string | undefined;
+
+    const body = await readJSONBody(req);
+    const versionID = isRecord(body) ? body.version_id : undefined;
+
+    if (!id || typeof versionID !== "string" || !versionID) {
+      return Response.json(
+        { errors: [{ message: "A document ID and version_id are required." }] },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const doc = await req.payload.findByID({
+        collection: collection.slug,
+        id,
+        depth: 0,
+        overrideAccess: false,
+        req,
+      });
+
+      const metadata = doc.cloudinary as CloudinaryMetadata | undefined;
+      const versions = (doc.versions || []) as CloudinaryVersionEntry[];
+      const entry = findVersionEntry(versions, versionID);
+
+      if (!metadata?.public_id || !entry) {
+        return Response.json(
+          { errors: [{ message: "Version not found." }] },
+          { status: 404 },
+        );
+      }
+
+      // Cloudinary restores the backup as a new current version
+      const response = await cloudinary.restore([metadata.public_id], {
+        resource_type: metadata.resource_type,
+        type: metadata.type || "upload",
+        versions: [entry.version_id],
+      });
+      const restored = response?.[metadata.public_id];
+
+      if (!restored || restored.error) {
+        return Response.json(
+          {
+            errors: [
+              {
+                message:
+                  restored?.error?.message ||
+                  "Cloudinary could not restore this version.",
+              },
+            ],
+          },
+          { status: 502 },
+        );
+      }
+
+      const newEntry = getVersionEntry(restored);
+      const history = versioning.storeHistory
+        ? pruneVersionHistory(
+            [...versions, newEntry],
+            versioning.retention,
+            newEntry.version,
+          )
+        : versions;
+
+      const updated = await req.payload.update({
+        collection: collection.slug,
+        id,
+        data: {
+          cloudinary: {
+            ...metadata,
+            version: newEntry.version,
+            version_id: newEntry.version_id,
+            secure_url: restored.secure_url || metadata.secure_url,
+            bytes: restored.bytes ?? metadata.bytes,
+            ...(restored.width && { width: restored.width }),
+            ...(restored.height && { height: restored.height }),
+          },
+          versions: history,
+        },
+        overrideAccess: false,
+        req,
+      });
+
+      return Response.json({ doc: updated }, { status: 200 });
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error restoring Cloudinary version",
+        id,
+      });
+      return Response.json(
+        {
+          errors: [
+            {
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Something went wrong.",
+            },
+          ],
+        },
+        { status: (error as { status?: number })?.status || 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,183 @@
+import type { CollectionSlug, Field } from "payload";
+import type { CloudinaryClient } from "./client";
+import type {
+  CloudinaryDeliveryType,
+  CloudinaryMetadata,
+  CloudinaryVideoOptions,
+} from "./types";
+
+import { getSignedURL, isRestrictedDeliveryType } from "./signedURL";
+
+export const DEFAULT_STREAMING_PROFILE = "auto";
+export const DEFAULT_POSTER_FORMAT = "jpg";
+
+// Manifest formats of the adaptive streaming protocols
+const STREAMING_FORMATS = { hls: "m3u8", dash: "mpd" } as const;
+
+type VideoAsset = {
+  public_id: string;
+  version?: number | string;
+  type?: string;
+};
+
+type VideoSettings = {
+  streaming: { formats: ("hls" | "dash")[]; profile: string } | undefined;
+  poster: { offset: number | string; format: string } | undefined;
+};
+
+/**
+ * Resolve the streaming and poster settings, with their defaults
+ */
+const getVideoSettings = (options: CloudinaryVideoOptions): VideoSettings => {
+  const streaming = options.streaming ?? true;
+  const poster = options.poster ?? true;
+
+  return {
+    streaming: streaming
+      ? {
+          formats: (streaming === true ? undefined : streaming.formats) || [
+            "hls",
+          ],
+          profile:
+            (streaming === true ? undefined : streaming.profile) ||
+            DEFAULT_STREAMING_PROFILE,
+        }
+      : undefined,
+    poster: poster
+      ? {
+          offset: (poster === true ? undefined : poster.offset) ?? 0,
+          format:
+            (poster === true ? undefined : poster.format) ||
+            DEFAULT_POSTER_FORMAT,
+        }
+      : undefined,
+  };
+};
+
+/**
+ * Eager transformations for the streaming manifests and the poster frame
+ * They are generated asynchronously, so uploads don't wait for them
+ */
+export const getVideoEager = (
+  options: CloudinaryVideoOptions,
+): { raw_transformation: string; format: string }[] => {
+  const { streaming, poster } = getVideoSettings(options);
+
+  return [
+    ...(streaming?.formats || []).map((protocol) => ({
+      raw_transformation: `sp_${streaming!.profile}`,
+      format: STREAMING_FORMATS[protocol],
+    })),
+    ...(poster
+      ? [{ raw_transformation: `so_${poster.offset}`, format: poster.format }]
+      : []),
+  ];
+};
+
+/**
+ * Delivery URL of a video rendition
+ * Authenticated and private videos get signed URLs
+ */
+const getVideoRenditionURL = (
+  cloudinary: CloudinaryClient,
+  asset: VideoAsset,
+  transformation: string,
+  format: string,
+): string => {
+  const type = (asset.type || "upload") as CloudinaryDeliveryType;
+
+  if (isRestrictedDeliveryType(type)) {
+    return getSignedURL(cloudinary, {
+      public_id: asset.public_id,
+      format,
+      resource_type: "video",
+      type,
+      version: asset.version,
+      transformation,
+    });
+  }
+
+  const versionSegment = asset.version ? `/v${asset.version}` : "";
+  return `https://res.cloudinary.com/${cloudinary.cloudName}/video/upload/${transformation}${versionSegment}/${asset.public_id}.${format}`;
+};
+
+/**
+ * Streaming manifest and poster URLs of a video
+ */
+export const getVideoMetadata = (
+  cloudinary: CloudinaryClient,
+  asset: VideoAsset,
+  options: CloudinaryVideoOptions,
+): Pick<CloudinaryMetadata, "streaming_url" | "dash_url" | "poster_url"> => {
+  const { streaming, poster } = getVideoSettings(options);
+  const manifestURL = (protocol: "hls" | "dash") =>
+    streaming?.formats.includes(protocol)
+      ? getVideoRenditionURL(
+          cloudinary,
+          asset,
+          `sp_${streaming.profile}`,
+          STREAMING_FORMATS[protocol],
+        )
+      : undefined;
+
+  return {
+    streaming_url: manifestURL("hls"),
+    dash_url: manifestURL("dash"),
+    poster_url: poster
+      ? getVideoRenditionURL(
+          cloudinary,
+          asset,
+          `so_${poster.offset}`,
+          poster.format,
+        )
+      : undefined,
+  };
+};
+
+/**
+ * Caption and subtitle tracks of a video, for `<track>` elements
+ * Files are documents of the configured upload collection
+ */
+export const getCaptionsField = (relationTo: string): Field => ({
+  name: "captions",
+  type: "array",
+  label: "Captions",
+  admin: {
+    description: "Caption and subtitle tracks (WebVTT or SRT)",
+    condition: (data) => data?.cloudinary?.resource_type === "video",
+  },
+  fields: [
+    {
+      name: "file",
+      type: "upload",
+      relationTo: relationTo as CollectionSlug,
+      required: true,
+    },
+    {
+      name: "language",
+      type: "text",
+      label: "Language",
+      required: true,
+      admin: {
+        description: "BCP 47 language tag, e.g. en or pt-BR",
+      },
+    },
+    {
+      name: "label",
+      type: "text",
+      label: "Label",
+    },
+    {
+      name: "kind",
+      type: "select",
+      defaultValue: "subtitles",
+      options: ["subtitles", "captions", "descriptions"],
+    },
+    {
+      name: "default",
+      type: "checkbox",
+      label: "Default Track",
+      defaultValue: false,
+    },
+  ],
+});
@@ -0,0 +1,224 @@
+import type {
+  CollectionSlug,
+  Endpoint,
+  JsonObject,
+  PayloadRequest,
+  TypeWithID,
+} from "payload";
+import type {
+  CloudinaryConfig,
+  CloudinaryMetadata,
+  CloudinaryWebhooksOptions,
+} from "./types";
+
+import crypto from "crypto";
+
+export const DEFAULT_WEBHOOK_PATH = "/cloudinary-webhook";
+
+// Cloudinary's own default for how long a notification signature is valid
+const DEFAULT_VALID_FOR = 7200;
+
+type WebhookAccount = {
+  config: CloudinaryConfig;
+  collections: string[];
+};
+
+interface Args {
+  /**
+   * Cloudinary accounts with the collections whose assets they store
+   */
+  accounts: WebhookAccount[];
+  options: CloudinaryWebhooksOptions;
+}
+
+type CloudinaryNotification = {
+  notification_type?: string;
+  public_id?: string;
+  eager?: Record<string, unknown>[];
+  moderation_status?: string;
+  resources?: { public_id?: string }[];
+  [key: string]: unknown;
+};
+
+/**
+ * Compute the `X-Cld-Signature` of a notification body
+ * Useful for crafting signed payloads locally
+ * @param body Raw request body
+ * @param timestamp Value of the `X-Cld-Timestamp` header
+ * @param apiSecret Cloudinary API secret
+ * @param algorithm Signature algorithm configured on the account
+ */
+export const getNotificationSignature = (
+  body: string,
+  timestamp: number | string,
+  apiSecret: string,
+  algorithm: CloudinaryWebhooksOptions["signatureAlgorithm"] = "sha1",
+): string =>
+  crypto
+    .createHash(algorithm)
+    .update(`${body}${timestamp}${apiSecret}`)
+    .digest("hex");
+
+/**
+ * Verify a notification signature and its timestamp
+ */
+const isValidNotification = (
+  body: string,
+  timestamp: number,
+  signature: string,
+  config: CloudinaryConfig,
+  options: CloudinaryWebhooksOptions,
+): boolean => {
+  const validFor = options.validFor ?? DEFAULT_VALID_FOR;
+  if (!timestamp || timestamp < Math.round(Date.now() / 1000) - validFor) {
+    return false;
+  }
+
+  const expected = getNotificationSignature(
+    body,
+    timestamp,
+    config.api_secret,
+    options.signatureAlgorithm,
+  );
+  const encoder = new TextEncoder();
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(encoder.encode(expected), encoder.encode(signature))
+  );
+};
+
+/**
+ * Find the document that references a Cloudinary public ID
+ */
+const findDocument = async (
+  req: PayloadRequest,
+  collections: string[],
+  publicId: string,
+): Promise<
+  { collection: string; doc: JsonObject & TypeWithID } | undefined
+> => {
+  for (const collection of collections) {
+    const { docs } = await req.payload.find({
+      collection: collection as CollectionSlug,
+      depth: 0,
+      limit: 1,
+      pagination: false,
+      req,
+      where: { "cloudinary.public_id": { equals: publicId } },
+    });
+
+    if (docs[0]) {
+      return { collection, doc: docs[0] };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Merge notification data into a document's Cloudinary metadata
+ */
+const updateMetadata = async (
+  req: PayloadRequest,
+  collections: string[],
+  publicId: string | undefined,
+  changes: Partial<CloudinaryMetadata>,
+): Promise<void> => {
+  if (!publicId) return;
+
+  const match = await findDocument(req, collections, publicId);
+  if (!match) {
+    req.payload.logger.warn({
+      message: "No document found for Cloudinary notification",
+      public_id: publicId,
+    });
+    return;
+  }
+
+  await req.payload.update({
+    collection: match.collection as CollectionSlug,
+    id: match.doc.id,
+    data: {
+      cloudinary: { ...match.doc.cloudinary, ...changes },
+    },
+    context: { cloudinaryWebhook: true },
+    req,
+  });
+};
+
+/**
+ * Endpoint receiving Cloudinary notification callbacks
+ *
+ * Handles `eager` (async derivatives finished), `moderation` (status changed)
+ * and `delete` (asset removed outside of Payload) notifications
+ */
+export const getWebhookEndpoint = ({ accounts, options }: Args): Endpoint => ({
+  path: options.path || DEFAULT_WEBHOOK_PATH,
+  method: "post",
+  handler: async (req) => {
+    const body = (await req.text?.()) || "";
+    const timestamp = Number(req.headers.get("x-cld-timestamp"));
+    const signature = req.headers.get("x-cld-signature") || "";
+
+    // The signing secret tells which account (and collections) it concerns
+    const account = accounts.find(({ config }) =>
+      isValidNotification(body, timestamp, signature, config, options),
+    );
+    if (!account) {
+      return Response.json(
+        { errors: [{ message: "Invalid Cloudinary notification signature." }] },
+        { status: 401 },
+      );
+    }
+
+    let notification: CloudinaryNotification;
+    try {
+      notification = JSON.parse(body);
+    } catch (error) {
+      return Response.json(
+        { errors: [{ message: "Invalid notification body." }] },
+        { status: 400 },
+      );
+    }
+
+    const { collections } = account;
+    try {
+      switch (notification.notification_type) {
+        case "eager":
+          await updateMetadata(req, collections, notification.public_id, {
+            eager: notification.eager || [],
+          });
+          break;
+        case "moderation":
+          await updateMetadata(req, collections, notification.public_id, {
+            moderation_status: notification.moderation_status,
+          });
+          break;
+        case "delete": {
+          const deletedAt = new Date().toISOString();
+          for (const resource of notification.resources || []) {
+            await updateMetadata(req, collections, resource.public_id, {
+              deleted_at: deletedAt,
+            });
+          }
+          break;
+        }
+        default:
+          // Other notification types are acknowledged but not stored
+          break;
+      }
+    } catch (error) {
+      req.payload.logger.error({
+        error,
+        message: "Error handling Cloudinary notification",
+        notification_type: notification.notification_type,
+      });
+      return Response.json(
+        { errors: [{ message: "Something went wrong." }] },
+        { status: 500 },
+      );
+    }
+
+    return Response.json({ received: true }, { status: 200 });
+  },
+});
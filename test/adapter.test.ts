@@ -0,0 +1,822 @@
+import { beforeAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import type { CollectionConfig } from "payload";
+import type {
+  CloudinaryModerationOptions,
+  CloudinaryUploadLimits,
+  CloudinaryVersioningOptions,
+  PayloadDocument,
+} from "../src/types";
+
+import { cloudinaryStorage } from "../src";
+import { createFakeCloudinaryClient } from "../src/fakeClient";
+import { getHandleUpload } from "../src/handleUpload";
+import { getHandleDelete } from "../src/handleDelete";
+import { getGenerateURL } from "../src/generateURL";
+import { getHandler } from "../src/staticHandler";
+import {
+  getReplaceVersion,
+  replaceVersion,
+} from "../src/collections/Media/hooks";
+
+const FOLDER = "payload-media";
+const CLOUD_NAME = "demo";
+const config = { cloud_name: CLOUD_NAME, api_key: "key", api_secret: "secret" };
+const versioning: CloudinaryVersioningOptions = {
+  enabled: true,
+  storeHistory: true,
+};
+
+const collection = {
+  slug: "media",
+  upload: {
+    imageSizes: [{ name: "thumbnail", width: 100, height: 100 }],
+  },
+  fields: [],
+} as unknown as CollectionConfig;
+
+/**
+ * Minimal PNG: signature and IHDR chunk with the dimensions
+ */
+const png = (width: number, height: number, seed = "") => {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return Buffer.concat([header, Buffer.from(`pixels${seed}`)]);
+};
+
+const pdf = (pages: number) =>
+  Buffer.from(
+    `%PDF-1.4\n<< /Type /Pages /Count ${pages} >>\n${"<< /Type /Page >>\n".repeat(pages)}%%EOF`,
+    "latin1",
+  );
+
+const mp4 = () =>
+  Buffer.concat([
+    Buffer.from([0, 0, 0, 24]),
+    Buffer.from("ftypisom", "latin1"),
+    Buffer.alloc(32, 1),
+  ]);
+
+const file = (filename: string, buffer: Buffer, mimeType: string) => ({
+  buffer,
+  filename,
+  filesize: buffer.length,
+  mimeType,
+});
+
+/**
+ * Request against an in-memory list of documents
+ */
+const createRequest = (docs: PayloadDocument[], search = "") => {
+  const matching = (where: any) =>
+    docs.filter((doc) =>
+      (where?.or || []).some((condition: Record<string, any>) => {
+        const [field, { equals }] = Object.entries(condition)[0];
+        const value = field
+          .split(".")
+          .reduce<any>((acc, key) => acc?.[key], doc);
+        return value === equals;
+      }),
+    );
+
+  return {
+    headers: new Headers(),
+    url: `http://localhost/api/media/file/x${search}`,
+    searchParams: new URLSearchParams(search),
+    payload: {
+      find: async ({ where }: any) => ({ docs: matching(where) }),
+      count: async ({ where }: any) => ({ totalDocs: matching(where).length }),
+      logger: { error: () => undefined },
+    },
+  } as any;
+};
+
+const withHeaders = (req: any, headers: Record<string, string>) => ({
+  ...req,
+  headers: new Headers(headers),
+});
+
+const setup = (
+  options: {
+    deliveryType?: "upload" | "authenticated";
+    limits?: CloudinaryUploadLimits;
+    moderation?: CloudinaryModerationOptions;
+  } = {},
+) => {
+  const client = createFakeCloudinaryClient({ cloudName: CLOUD_NAME });
+  const args = {
+    cloudinary: client,
+    collection,
+    folder: FOLDER,
+    versioning,
+    deliveryType: options.deliveryType,
+    limits: options.limits,
+    moderation: options.moderation,
+  };
+  const generateURL = getGenerateURL({ ...args, config });
+
+  return {
+    client,
+    handleUpload: getHandleUpload(args),
+    handleDelete: getHandleDelete(args),
+    generateURL,
+    handler: getHandler({ ...args, generateURL }),
+  };
+};
+
+/**
+ * Upload a file through the adapter and return the stored document
+ */
+const upload = async (
+  handleUpload: ReturnType<typeof setup>["handleUpload"],
+  uploaded: ReturnType<typeof file>,
+  data: Record<string, any> = {},
+): Promise<PayloadDocument> => {
+  // The replace hook tracks the incoming data object itself
+  const doc = Object.assign(data, {
+    id: "1",
+    filename: uploaded.filename,
+    mimeType: uploaded.mimeType,
+  });
+  await handleUpload({
+    collection,
+    data: doc,
+    file: uploaded,
+    req: createRequest([]),
+  });
+  return doc as PayloadDocument;
+};
+
+/**
+ * Replace the file of a document the way an update with a new file does
+ */
+const replace = async (
+  handleUpload: ReturnType<typeof setup>["handleUpload"],
+  original: PayloadDocument,
+  uploaded: ReturnType<typeof file>,
+): Promise<PayloadDocument> => {
+  const data: Record<string, any> = {};
+  await replaceVersion({
+    data,
+    originalDoc: original,
+    operation: "update",
+    req: { file: { name: uploaded.filename } },
+  } as any);
+  return upload(handleUpload, uploaded, data);
+};
+
+beforeAll(() => {
+  spyOn(console, "log").mockImplementation(() => undefined);
+  spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("handleUpload", () => {
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => {
+    env = setup();
+  });
+
+  test("stores the Cloudinary metadata of an image", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("Summer Photo.png", png(640, 480), "image/png"),
+    );
+    const metadata = doc.cloudinary!;
+    const asset = env.client.getAsset(metadata.public_id, {
+      resource_type: "image",
+    });
+
+    expect(metadata.public_id.startsWith(`${FOLDER}/summer-photo_`)).toBe(true);
+    expect(metadata.resource_type).toBe("image");
+    expect(metadata.format).toBe("png");
+    expect(metadata.width).toBe(640);
+    expect(metadata.height).toBe(480);
+    expect(metadata.asset_id).toBe(asset!.asset_id);
+    expect(metadata.version).toBe(String(asset!.versions[0].version));
+    expect(doc.versions).toHaveLength(1);
+  });
+
+  test("describes image sizes as derivatives", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+
+    expect(doc.sizes?.thumbnail).toMatchObject({
+      width: 100,
+      height: 100,
+      mimeType: "image/png",
+    });
+    expect(doc.sizes?.thumbnail.url).toContain(doc.cloudinary!.public_id);
+  });
+
+  test("counts the pages of a PDF", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(3), "application/pdf"),
+    );
+
+    expect(doc.cloudinary!.resource_type).toBe("raw");
+    expect(doc.cloudinary!.public_id.endsWith(".pdf")).toBe(true);
+    expect(doc.cloudinary!.pages).toBe(3);
+    expect(doc.cloudinary!.thumbnail_url).toContain("/image/upload/pg_1");
+  });
+
+  test("stores the duration of a video", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("clip.mp4", mp4(), "video/mp4"),
+    );
+
+    expect(doc.cloudinary!.resource_type).toBe("video");
+    expect(doc.cloudinary!.duration).toBe(10);
+  });
+
+  test("overwrites the same public ID when a file is replaced", async () => {
+    const original = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480, "v1"), "image/png"),
+    );
+
+    const replaced = await replace(
+      env.handleUpload,
+      original,
+      file("photo.png", png(320, 240, "v2"), "image/png"),
+    );
+
+    const asset = env.client.getAsset(original.cloudinary!.public_id, {
+      resource_type: "image",
+    });
+    expect(replaced.cloudinary!.public_id).toBe(original.cloudinary!.public_id);
+    expect(asset!.versions).toHaveLength(2);
+    expect(replaced.versions).toHaveLength(2);
+    expect(replaced.cloudinary!.width).toBe(320);
+  });
+
+  test("rejects when Cloudinary fails", async () => {
+    spyOn(env.client, "upload").mockRejectedValueOnce(new Error("Boom"));
+
+    await expect(
+      upload(env.handleUpload, file("photo.png", png(1, 1), "image/png")),
+    ).rejects.toThrow("Boom");
+  });
+});
+
+describe("upload limits", () => {
+  const limits = { maxPages: 2 };
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => {
+    env = setup({ limits });
+  });
+
+  /**
+   * Replace a file the way the collection hooks and the cloud storage
+   * plugin do: the old file is deleted before the new one is uploaded
+   */
+  const replaceWithLimits = async (
+    original: PayloadDocument,
+    uploaded: ReturnType<typeof file>,
+  ): Promise<PayloadDocument> => {
+    const data: Record<string, any> = {};
+    await getReplaceVersion({ limits, versioning })({
+      data,
+      originalDoc: original,
+      operation: "update",
+      req: { file: { name: uploaded.filename } },
+    } as any);
+    await env.handleDelete({
+      collection,
+      doc: original as any,
+      filename: original.filename!,
+      req: createRequest([original]),
+    });
+    return upload(env.handleUpload, uploaded, data);
+  };
+
+  const getCurrentBytes = (publicId: string) =>
+    env.client.getAsset(publicId, { resource_type: "raw" })?.versions.at(-1)
+      ?.bytes;
+
+  test("deletes new uploads that violate the limits", async () => {
+    await expect(
+      upload(env.handleUpload, file("Report.pdf", pdf(5), "application/pdf")),
+    ).rejects.toThrow();
+
+    expect(env.client.assets.size).toBe(0);
+  });
+
+  test("restores the previous version of a rejected replacement", async () => {
+    const original = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+
+    await expect(
+      replaceWithLimits(
+        original,
+        file("Report.pdf", pdf(5), "application/pdf"),
+      ),
+    ).rejects.toThrow();
+
+    expect(env.client.assets.size).toBe(1);
+    expect(
+      Buffer.from(getCurrentBytes(original.cloudinary!.public_id)!),
+    ).toEqual(pdf(1));
+  });
+
+  test("keeps the asset of a rejected replacement without backup", async () => {
+    const original = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+    delete original.cloudinary!.version_id;
+
+    await expect(
+      replaceWithLimits(
+        original,
+        file("Report v2.pdf", pdf(5), "application/pdf"),
+      ),
+    ).rejects.toThrow();
+
+    expect(env.client.assets.size).toBe(1);
+    expect(
+      Buffer.from(getCurrentBytes(original.cloudinary!.public_id)!),
+    ).toEqual(pdf(1));
+  });
+
+  test("deletes the previous asset once a replacement passed", async () => {
+    const original = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+    const previousID = original.cloudinary!.public_id;
+    delete original.cloudinary!.version_id;
+
+    const replaced = await replaceWithLimits(
+      { ...original },
+      file("Report v2.pdf", pdf(2), "application/pdf"),
+    );
+
+    expect(replaced.cloudinary!.public_id).not.toBe(previousID);
+    expect(getCurrentBytes(previousID)).toBeUndefined();
+    expect(env.client.assets.size).toBe(1);
+  });
+});
+
+describe("handleDelete", () => {
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => {
+    env = setup();
+  });
+
+  test("destroys the stored asset", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+
+    await env.handleDelete({
+      collection,
+      doc: doc as any,
+      filename: doc.filename!,
+      req: createRequest([doc]),
+    });
+
+    expect(env.client.assets.size).toBe(0);
+  });
+
+  test("only removes the derivative of an image size", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+    const asset = env.client.getAsset(doc.cloudinary!.public_id, {
+      resource_type: "image",
+    })!;
+
+    // The derivative is generated on first request
+    await env.client.fetch(doc.sizes!.thumbnail.url);
+    expect(asset.derived.size).toBeGreaterThan(0);
+
+    await env.handleDelete({
+      collection,
+      doc: doc as any,
+      filename: doc.sizes!.thumbnail.filename,
+      req: createRequest([doc]),
+    });
+
+    expect(env.client.assets.size).toBe(1);
+    expect(
+      [...asset.derived].some((transformation) =>
+        transformation.includes("w_100"),
+      ),
+    ).toBe(false);
+  });
+
+  test("keeps the asset of a replaced file", async () => {
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+    await replaceVersion({
+      data: {},
+      originalDoc: doc,
+      operation: "update",
+      req: { file: { name: "photo.png" } },
+    } as any);
+
+    await env.handleDelete({
+      collection,
+      doc: doc as any,
+      filename: doc.filename!,
+      req: createRequest([doc]),
+    });
+
+    expect(env.client.assets.size).toBe(1);
+  });
+});
+
+describe("generateURL", () => {
+  test("points at the uploaded bytes", async () => {
+    const env = setup();
+    const bytes = png(640, 480);
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", bytes, "image/png"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.filename!,
+      prefix: "",
+    });
+    const response = await env.client.fetch(url);
+
+    expect(
+      url.startsWith(`https://res.cloudinary.com/${CLOUD_NAME}/image/upload/`),
+    ).toBe(true);
+    expect(response.status).toBe(200);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  test("points at image size derivatives", async () => {
+    const env = setup();
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.sizes!.thumbnail.filename,
+      prefix: "",
+    });
+    const response = await env.client.fetch(url);
+
+    expect(url).toBe(doc.sizes!.thumbnail.url);
+    expect(response.status).toBe(200);
+  });
+
+  test("renders PDF pages through the image pipeline", async () => {
+    const env = setup();
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(2), "application/pdf"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.filename!,
+      prefix: "",
+      format: "jpg",
+      pdf_page: 2,
+    } as any);
+    const response = await env.client.fetch(url);
+
+    expect(url).toContain("/image/upload/pg_2");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/jpeg");
+  });
+
+  test("signs URLs of authenticated assets", async () => {
+    const env = setup({ deliveryType: "authenticated" });
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.filename!,
+      prefix: "",
+    });
+    const response = await env.client.fetch(url);
+
+    expect(doc.cloudinary!.type).toBe("authenticated");
+    expect(url).toContain("signature=");
+    expect(response.status).toBe(200);
+  });
+
+  test("points previous versions at the file route", async () => {
+    const env = setup();
+    const first = png(640, 480, "v1");
+    const original = await upload(
+      env.handleUpload,
+      file("photo.png", first, "image/png"),
+    );
+    const doc = await replace(
+      env.handleUpload,
+      original,
+      file("photo.png", png(320, 240, "v2"), "image/png"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.filename!,
+      prefix: "",
+      version: original.cloudinary!.version,
+    } as any);
+
+    // Backup download URLs carry an API signature
+    expect(url).not.toContain("download_backup");
+    expect(url).toBe(
+      `/api/media/file/photo.png?version=${original.cloudinary!.version}`,
+    );
+  });
+});
+
+describe("static handler", () => {
+  const params = (filename: string) => ({
+    params: { filename, collection: "media" },
+  });
+
+  test("streams the stored asset", async () => {
+    const env = setup();
+    const bytes = pdf(1);
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", bytes, "application/pdf"),
+    );
+
+    const response = await env.handler(
+      createRequest([doc]),
+      params(doc.filename!),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  test("answers range and conditional requests", async () => {
+    const env = setup();
+    const bytes = pdf(1);
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", bytes, "application/pdf"),
+    );
+    const req = createRequest([doc]);
+
+    const partial = await env.handler(
+      withHeaders(req, { range: "bytes=0-3" }),
+      params(doc.filename!),
+    );
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get("content-range")).toBe(
+      `bytes 0-3/${bytes.length}`,
+    );
+    expect(await partial.text()).toBe("%PDF");
+
+    const etag = partial.headers.get("etag")!;
+    const notModified = await env.handler(
+      withHeaders(req, { "if-none-match": etag }),
+      params(doc.filename!),
+    );
+    expect(notModified.status).toBe(304);
+  });
+
+  test("serves image sizes", async () => {
+    const env = setup();
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+
+    const response = await env.handler(
+      createRequest([doc]),
+      params(doc.sizes!.thumbnail.filename),
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  test("serves previous versions", async () => {
+    const env = setup();
+    const first = png(640, 480, "v1");
+    const original = await upload(
+      env.handleUpload,
+      file("photo.png", first, "image/png"),
+    );
+    const doc = await replace(
+      env.handleUpload,
+      original,
+      file("photo.png", png(320, 240, "v2"), "image/png"),
+    );
+
+    const response = await env.handler(
+      createRequest([doc], `?version=${original.cloudinary!.version}`),
+      params(doc.filename!),
+    );
+
+    expect(response.status).toBe(200);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(first);
+  });
+
+  test("looks up documents without stored metadata", async () => {
+    const env = setup();
+    const bytes = png(10, 10);
+    await env.client.upload(bytes, {
+      public_id: `${FOLDER}/legacy`,
+      resource_type: "image",
+    });
+    const legacyDoc = { id: "1", filename: "legacy.png" };
+
+    const response = await env.handler(
+      createRequest([legacyDoc]),
+      params("legacy.png"),
+    );
+
+    expect(response.status).toBe(200);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  test("answers 404 for missing assets", async () => {
+    const env = setup();
+
+    const response = await env.handler(
+      createRequest([{ id: "1", filename: "missing.png" }]),
+      params("missing.png"),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  test("keeps the delivery type assets were uploaded with", async () => {
+    const env = setup();
+    const bytes = png(640, 480);
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", bytes, "image/png"),
+    );
+    // The collection switched to authenticated delivery afterwards
+    const handler = getHandler({
+      cloudinary: env.client,
+      collection,
+      folder: FOLDER,
+      deliveryType: "authenticated",
+      generateURL: env.generateURL,
+    });
+
+    const response = await handler(createRequest([doc]), params(doc.filename!));
+
+    expect(response.status).toBe(200);
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  test("redirects to the generated URL", async () => {
+    const env = setup();
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+    const handler = getHandler({
+      cloudinary: env.client,
+      collection,
+      folder: FOLDER,
+      staticHandlerMode: "redirect",
+      generateURL: env.generateURL,
+    });
+
+    const response = await handler(createRequest([doc]), params(doc.filename!));
+    const location = response.headers.get("location")!;
+
+    expect(response.status).toBe(302);
+    expect((await env.client.fetch(location)).status).toBe(200);
+  });
+});
+
+describe("moderation", () => {
+  const moderation = { placeholderURL: "/placeholder.png" };
+  const params = (filename: string) => ({
+    params: { filename, collection: "media" },
+  });
+
+  test("returns the placeholder for pending assets", async () => {
+    const env = setup({ moderation });
+    const doc = await upload(
+      env.handleUpload,
+      file("photo.png", png(640, 480), "image/png"),
+    );
+
+    const url = await env.generateURL({
+      collection,
+      data: doc,
+      filename: doc.filename!,
+      prefix: "",
+    });
+
+    expect(doc.cloudinary!.moderation_status).toBe("pending");
+    expect(url).toBe("/placeholder.png");
+  });
+
+  test("serves pending assets to moderators only", async () => {
+    const env = setup({ moderation });
+    const doc = await upload(
+      env.handleUpload,
+      file("Report.pdf", pdf(1), "application/pdf"),
+    );
+    const req = createRequest([doc]);
+
+    const blocked = await env.handler(req, params(doc.filename!));
+    const allowed = await env.handler(
+      { ...req, user: { id: 1 } },
+      params(doc.filename!),
+    );
+
+    expect(blocked.status).toBe(403);
+    expect(allowed.status).toBe(200);
+  });
+
+  describe("collection", () => {
+    const getMedia = async () => {
+      const client = createFakeCloudinaryClient({ cloudName: CLOUD_NAME });
+      const result = await cloudinaryStorage({
+        client,
+        config,
+        collections: { media: { moderation } },
+      })({ collections: [{ slug: "media", upload: true, fields: [] }] } as any);
+      return result.collections!.find((media) => media.slug === "media")!;
+    };
+
+    const pending = {
+      filename: "photo.png",
+      cloudinary: {
+        public_id: `${FOLDER}/photo`,
+        resource_type: "image",
+        secure_url: `https://res.cloudinary.com/${CLOUD_NAME}/image/upload/${FOLDER}/photo.png`,
+        moderation_status: "pending",
+      },
+    };
+
+    test("shows the placeholder as admin thumbnail", async () => {
+      const media = await getMedia();
+      const adminThumbnail = (media.upload as any).adminThumbnail;
+
+      expect(adminThumbnail({ doc: pending })).toBe("/placeholder.png");
+      expect(
+        adminThumbnail({
+          doc: {
+            ...pending,
+            cloudinary: {
+              ...pending.cloudinary,
+              moderation_status: "approved",
+            },
+          },
+        }),
+      ).toBe(pending.cloudinary.secure_url);
+    });
+
+    test("hides the URLs of pending assets from other users", async () => {
+      const media = await getMedia();
+      const group = media.fields.find(
+        (field: any) => field.name === "cloudinary",
+      ) as any;
+      const read = (name: string, user: unknown, cloudinary: unknown) =>
+        group.fields
+          .find((field: any) => field.name === name)
+          .access.read({ req: { user }, siblingData: cloudinary });
+
+      for (const name of ["secure_url", "poster_url", "eager"]) {
+        expect(await read(name, null, pending.cloudinary)).toBe(false);
+        expect(await read(name, { id: 1 }, pending.cloudinary)).toBe(true);
+        expect(
+          await read(name, null, {
+            ...pending.cloudinary,
+            moderation_status: "approved",
+          }),
+        ).toBe(true);
+      }
+      expect(
+        group.fields.find((field: any) => field.name === "public_id").access,
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { CollectionConfig } from "payload";
+
+import { createFakeCloudinaryClient } from "../src/fakeClient";
+import { getClientUploadEndpoints } from "../src/clientUploads";
+
+const FOLDER = "payload-media";
+const CLOUD_NAME = "demo";
+const config = { cloud_name: CLOUD_NAME, api_key: "key", api_secret: "secret" };
+const collection = {
+  slug: "media",
+  upload: true,
+  fields: [],
+} as CollectionConfig;
+
+/**
+ * Minimal PNG: signature and IHDR chunk with the dimensions
+ */
+const png = (width: number, height: number) => {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return Buffer.concat([header, Buffer.from("pixels")]);
+};
+
+/**
+ * Finalize endpoint against an in-memory collection
+ */
+const setup = () => {
+  const client = createFakeCloudinaryClient({ cloudName: CLOUD_NAME });
+  const docs: Record<string, any>[] = [];
+  const failures = { create: false, update: false };
+
+  const payload = {
+    count: async ({ where }: any) => ({
+      totalDocs: docs.filter(
+        (doc) =>
+          doc.cloudinary?.public_id === where["cloudinary.public_id"].equals,
+      ).length,
+    }),
+    findByID: async ({ id }: any) => {
+      const doc = docs.find((existing) => existing.id === id);
+      if (!doc) throw Object.assign(new Error("Not Found"), { status: 404 });
+      return doc;
+    },
+    create: async ({ data }: any) => {
+      if (failures.create) throw new Error("The following field is invalid");
+      const doc = { ...data, id: docs.length + 1 };
+      docs.push(doc);
+      return doc;
+    },
+    update: async ({ id, data }: any) => {
+      if (failures.update) throw new Error("The following field is invalid");
+      const doc = docs.find((existing) => existing.id === id);
+      return Object.assign(doc!, data);
+    },
+    logger: { error: () => undefined },
+  };
+
+  const [, finalize] = getClientUploadEndpoints({
+    cloudinary: client,
+    collection,
+    config,
+    folder: FOLDER,
+    options: {},
+  });
+
+  const post = async (body: unknown) => {
+    const response = await finalize.handler({
+      user: { id: 1 },
+      payload,
+      json: async () => body,
+    } as any);
+    return { status: response.status, json: await response.json() };
+  };
+
+  // What the browser receives from Cloudinary
+  const uploadAsset = (publicId: string) =>
+    client.upload(png(640, 480), {
+      public_id: publicId,
+      resource_type: "image",
+    });
+
+  return { client, docs, failures, post, uploadAsset };
+};
+
+describe("client upload finalize", () => {
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => {
+    env = setup();
+  });
+
+  const exists = (publicId: string) =>
+    !!env.client.getAsset(publicId, { resource_type: "image" });
+
+  test("creates a document for a signed response", async () => {
+    const result = await env.uploadAsset(`${FOLDER}/photo`);
+    const { status, json } = await env.post({
+      result,
+      filename: "photo.png",
+    });
+
+    expect(status).toBe(201);
+    expect(json.doc.cloudinary.public_id).toBe(`${FOLDER}/photo`);
+    expect(json.doc.width).toBe(640);
+  });
+
+  test("rejects a response with a wrong signature", async () => {
+    const result = await env.uploadAsset(`${FOLDER}/photo`);
+    const { status } = await env.post({
+      result: { ...result, signature: "0".repeat(result.signature.length) },
+    });
+
+    expect(status).toBe(400);
+    expect(env.docs).toHaveLength(0);
+  });
+
+  test("rejects assets outside of the folder", async () => {
+    const result = await env.uploadAsset("elsewhere/photo");
+    const { status } = await env.post({ result });
+
+    expect(status).toBe(400);
+    expect(env.docs).toHaveLength(0);
+  });
+
+  test("rejects prefixes leaving the folder", async () => {
+    const result = await env.uploadAsset(`${FOLDER}/photo`);
+    const { status } = await env.post({ result, prefix: "../elsewhere" });
+
+    expect(status).toBe(400);
+  });
+
+  test("rejects replaying a response whose asset has a document", async () => {
+    const result = await env.uploadAsset(`${FOLDER}/photo`);
+    await env.post({ result, filename: "photo.png" });
+
+    env.failures.create = true;
+    const { status } = await env.post({ result, filename: "photo.png" });
+
+    expect(status).toBe(409);
+    expect(env.docs).toHaveLength(1);
+    expect(exists(`${FOLDER}/photo`)).toBe(true);
+  });
+
+  test("deletes the asset when the document can't be created", async () => {
+    env.failures.create = true;
+    const result = await env.uploadAsset(`${FOLDER}/photo`);
+    const { status } = await env.post({ result, filename: "photo.png" });
+
+    expect(status).toBe(500);
+    expect(exists(`${FOLDER}/photo`)).toBe(false);
+  });
+
+  test("deletes the new asset when the document can't be updated", async () => {
+    const original = await env.uploadAsset(`${FOLDER}/photo`);
+    const { json } = await env.post({ result: original });
+
+    env.failures.update = true;
+    const result = await env.uploadAsset(`${FOLDER}/photo-v2`);
+    const { status } = await env.post({ result, id: json.doc.id });
+
+    expect(status).toBe(500);
+    expect(exists(`${FOLDER}/photo-v2`)).toBe(false);
+    expect(exists(`${FOLDER}/photo`)).toBe(true);
+    expect(env.docs[0].cloudinary.public_id).toBe(`${FOLDER}/photo`);
+  });
+});
@@ -0,0 +1,363 @@
+import { beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import type { CollectionConfig } from "payload";
+import type { PayloadDocument, PublicIDOptions } from "../src/types";
+
+import { getUploadParams } from "../src/handleUpload";
+import { getGenerateURL } from "../src/generateURL";
+import { getHandleDelete } from "../src/handleDelete";
+import { getHandler } from "../src/staticHandler";
+import { generatePublicID, resolvePublicID } from "../src/publicID";
+
+const FOLDER = "payload-media";
+const CLOUD_NAME = "demo";
+const config = { cloud_name: CLOUD_NAME, api_key: "key", api_secret: "secret" };
+const collection = {
+  slug: "media",
+  upload: true,
+  fields: [],
+} as CollectionConfig;
+
+const FILES = [
+  { filename: "Summer Photo.jpg", resourceType: "image", format: "jpg" },
+  { filename: "Intro Clip.mp4", resourceType: "video", format: "mp4" },
+  { filename: "Annual Report.pdf", resourceType: "raw", format: "pdf" },
+];
+
+const PREFIXES = ["", "docs/2024"];
+
+const flags = [undefined, true, false];
+
+// Every combination of the boolean options, plus a custom generator
+const OPTIONS: { name: string; publicID?: PublicIDOptions }[] = [
+  { name: "defaults", publicID: undefined },
+  ...flags.flatMap((enabled) =>
+    flags.flatMap((useFilename) =>
+      flags.map((uniqueFilename) => ({
+        name: `enabled=${enabled} useFilename=${useFilename} uniqueFilename=${uniqueFilename}`,
+        publicID: { enabled, useFilename, uniqueFilename },
+      })),
+    ),
+  ),
+  {
+    name: "custom generatePublicID",
+    publicID: {
+      generatePublicID: (filename, prefix, folder) =>
+        [folder, prefix, `custom-${filename.replace(/\W/g, "")}`]
+          .filter(Boolean)
+          .join("/"),
+    },
+  },
+];
+
+const fetchMock = mock(
+  async (_url: string, _init?: RequestInit) => new Response("file"),
+);
+
+const createCloudinary = () => {
+  const resource = mock(async (public_id: string, options: any) => ({
+    public_id,
+    resource_type: options.resource_type,
+    format: "jpg",
+    secure_url: `https://res.cloudinary.com/${CLOUD_NAME}/image/upload/v1/${public_id}.jpg`,
+  }));
+  const destroy = mock(async () => ({ result: "ok" }));
+  const cloudinary = {
+    cloudName: CLOUD_NAME,
+    resource,
+    destroy,
+    fetch: fetchMock,
+  } as any;
+  return { cloudinary, resource, destroy };
+};
+
+const createRequest = (doc: PayloadDocument | undefined, search = "") =>
+  ({
+    headers: new Headers(),
+    url: `http://localhost/api/media/file/x${search}`,
+    searchParams: new URLSearchParams(search),
+    payload: {
+      find: async () => ({ docs: doc ? [doc] : [] }),
+      count: async () => ({ totalDocs: doc ? 1 : 0 }),
+      logger: { error: () => undefined },
+    },
+  }) as any;
+
+/**
+ * Build the document handleUpload would store for an upload result
+ */
+const uploadDocument = (
+  file: (typeof FILES)[number],
+  prefix: string,
+  publicID?: PublicIDOptions,
+): PayloadDocument => {
+  const { uploadOptions } = getUploadParams({
+    filename: file.filename,
+    data: { prefix },
+    folder: FOLDER,
+    publicID,
+    imageSizes: [],
+  });
+  const public_id = uploadOptions.public_id as string;
+  const isRaw = file.resourceType === "raw";
+
+  return {
+    id: "1",
+    filename: file.filename,
+    prefix,
+    cloudinary: {
+      public_id,
+      resource_type: file.resourceType,
+      format: file.format,
+      secure_url: `https://res.cloudinary.com/${CLOUD_NAME}/${file.resourceType}/upload/v1/${public_id}${isRaw ? "" : `.${file.format}`}`,
+      bytes: 1,
+      created_at: new Date().toISOString(),
+      version: "1",
+      type: "upload",
+    },
+  };
+};
+
+beforeAll(() => {
+  spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("public ID consistency", () => {
+  OPTIONS.forEach(({ name, publicID }) => {
+    describe(name, () => {
+      FILES.forEach((file) => {
+        PREFIXES.forEach((prefix) => {
+          const label = `${file.filename}${prefix ? ` with prefix "${prefix}"` : ""}`;
+
+          test(`${label}: upload generates an ID in the prefixed folder`, () => {
+            const doc = uploadDocument(file, prefix, publicID);
+            const public_id = doc.cloudinary!.public_id;
+            const folderPath = prefix ? `${FOLDER}/${prefix}` : FOLDER;
+
+            expect(public_id.startsWith(`${folderPath}/`)).toBe(true);
+            // Raw public IDs keep their extension, others don't
+            if (!publicID?.generatePublicID) {
+              expect(public_id.endsWith(`.${file.format}`)).toBe(
+                file.resourceType === "raw",
+              );
+            }
+          });
+
+          test(`${label}: generateURL targets the stored ID`, async () => {
+            const doc = uploadDocument(file, prefix, publicID);
+            const public_id = doc.cloudinary!.public_id;
+            const { cloudinary } = createCloudinary();
+            const generateURL = getGenerateURL({
+              cloudinary,
+              config,
+              folder: FOLDER,
+              publicID,
+            });
+
+            const url = await generateURL({
+              collection,
+              data: doc,
+              filename: file.filename,
+              prefix,
+            });
+
+            const expectedPath =
+              file.resourceType === "raw"
+                ? `/${public_id}`
+                : `/${public_id}.${file.format}`;
+            expect(url.endsWith(expectedPath)).toBe(true);
+            expect(url).toContain(`/${file.resourceType}/upload/`);
+          });
+
+          test(`${label}: handleDelete destroys the stored ID`, async () => {
+            const doc = uploadDocument(file, prefix, publicID);
+            const { cloudinary, destroy } = createCloudinary();
+            const handleDelete = getHandleDelete({
+              cloudinary,
+              collection,
+              folder: FOLDER,
+              publicID,
+            });
+
+            await handleDelete({
+              collection,
+              doc: doc as any,
+              filename: file.filename,
+              req: createRequest(doc),
+            });
+
+            expect(destroy).toHaveBeenCalledTimes(1);
+            expect(destroy.mock.calls[0][0]).toBe(doc.cloudinary!.public_id);
+          });
+
+          test(`${label}: static handler serves the stored asset without the Admin API`, async () => {
+            const doc = uploadDocument(file, prefix, publicID);
+            const { cloudinary, resource } = createCloudinary();
+            const handler = getHandler({
+              cloudinary,
+              collection,
+              folder: FOLDER,
+              publicID,
+            });
+            fetchMock.mockClear();
+
+            const response = await handler(createRequest(doc), {
+              params: { filename: file.filename, collection: "media" },
+            });
+
+            expect(response.status).toBe(200);
+            expect(resource).not.toHaveBeenCalled();
+            expect(String(fetchMock.mock.calls[0][0])).toBe(
+              doc.cloudinary!.secure_url,
+            );
+          });
+
+          test(`${label}: redirect mode points at the same URL as generateURL`, async () => {
+            const doc = uploadDocument(file, prefix, publicID);
+            const { cloudinary } = createCloudinary();
+            const generateURL = getGenerateURL({
+              cloudinary,
+              config,
+              folder: FOLDER,
+              publicID,
+            });
+            const handler = getHandler({
+              cloudinary,
+              collection,
+              folder: FOLDER,
+              publicID,
+              staticHandlerMode: "redirect",
+              generateURL,
+            });
+
+            const response = await handler(createRequest(doc), {
+              params: { filename: file.filename, collection: "media" },
+            });
+
+            expect(response.status).toBe(302);
+            expect(response.headers.get("location")).toBe(
+              await generateURL({
+                collection,
+                data: doc,
+                filename: file.filename,
+                prefix,
+              }),
+            );
+          });
+        });
+      });
+    });
+  });
+});
+
+describe("documents without stored metadata", () => {
+  const deterministic = OPTIONS.filter(
+    ({ publicID }) =>
+      !publicID?.generatePublicID &&
+      (publicID?.enabled === false || publicID?.uniqueFilename === false),
+  );
+
+  deterministic.forEach(({ name, publicID }) => {
+    FILES.forEach((file) => {
+      PREFIXES.forEach((prefix) => {
+        const label = `${name}: ${file.filename}${prefix ? ` with prefix "${prefix}"` : ""}`;
+        const legacyDoc = { id: "1", filename: file.filename, prefix };
+        const expected = generatePublicID(
+          file.filename,
+          { folder: FOLDER, prefix },
+          publicID,
+        );
+
+        test(`${label}: resolves the ID the upload generated`, () => {
+          const { uploadOptions } = getUploadParams({
+            filename: file.filename,
+            data: { prefix },
+            folder: FOLDER,
+            publicID,
+            imageSizes: [],
+          });
+
+          expect(
+            resolvePublicID({
+              filename: file.filename,
+              doc: legacyDoc,
+              folder: FOLDER,
+              publicID,
+            }),
+          ).toBe(uploadOptions.public_id as string);
+        });
+
+        test(`${label}: handleDelete uses the document prefix`, async () => {
+          const { cloudinary, destroy } = createCloudinary();
+          const handleDelete = getHandleDelete({
+            cloudinary,
+            collection,
+            folder: FOLDER,
+            publicID,
+          });
+
+          await handleDelete({
+            collection,
+            doc: legacyDoc as any,
+            filename: file.filename,
+            req: createRequest(legacyDoc),
+          });
+
+          expect(destroy.mock.calls[0][0]).toBe(expected);
+        });
+
+        test(`${label}: static handler looks up a single resolved ID`, async () => {
+          const { cloudinary, resource } = createCloudinary();
+          const handler = getHandler({
+            cloudinary,
+            collection,
+            folder: FOLDER,
+            publicID,
+          });
+
+          await handler(createRequest(legacyDoc), {
+            params: { filename: file.filename, collection: "media" },
+          });
+
+          expect(resource).toHaveBeenCalledTimes(1);
+          expect(resource.mock.calls[0][0]).toBe(expected);
+        });
+      });
+    });
+  });
+
+  test("generateURL looks up the document when data has no metadata", async () => {
+    const doc = uploadDocument(FILES[0], "", undefined);
+    const find = mock(async () => ({ docs: [doc] }));
+    const { cloudinary } = createCloudinary();
+    const generateURL = getGenerateURL({
+      cloudinary,
+      config,
+      folder: FOLDER,
+      getPayload: () => ({ find }) as any,
+    });
+
+    const url = await generateURL({
+      collection,
+      data: { filename: FILES[0].filename },
+      filename: FILES[0].filename,
+      prefix: "",
+    });
+
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(url.endsWith(`/${doc.cloudinary!.public_id}.jpg`)).toBe(true);
+  });
+});
+
+describe("custom generatePublicID", () => {
+  test("receives the filename, prefix and base folder", () => {
+    const generator = mock(() => "custom/id");
+
+    generatePublicID(
+      "photo.jpg",
+      { folder: FOLDER, prefix: "docs" },
+      { generatePublicID: generator },
+    );
+
+    expect(generator).toHaveBeenCalledWith("photo.jpg", "docs", FOLDER);
+  });
+});
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import { getNotificationSignature, getWebhookEndpoint } from "../src/webhooks";
+
+const FOLDER = "payload-media";
+const config = { cloud_name: "demo", api_key: "key", api_secret: "secret" };
+
+/**
+ * Webhook endpoint against an in-memory collection
+ */
+const setup = () => {
+  const docs: Record<string, any>[] = [
+    { id: 1, cloudinary: { public_id: `${FOLDER}/photo`, version: "1" } },
+    { id: 2, cloudinary: { public_id: `${FOLDER}/video`, version: "1" } },
+  ];
+
+  const payload = {
+    find: async ({ where }: any) => ({
+      docs: docs.filter(
+        (doc) =>
+          doc.cloudinary?.public_id === where["cloudinary.public_id"].equals,
+      ),
+    }),
+    update: async ({ id, data }: any) => {
+      const doc = docs.find((existing) => existing.id === id);
+      return Object.assign(doc!, data);
+    },
+    logger: { error: () => undefined, warn: () => undefined },
+  };
+
+  const endpoint = getWebhookEndpoint({
+    accounts: [{ config, collections: ["media"] }],
+    options: {},
+  });
+
+  const post = async (
+    body: string,
+    {
+      timestamp = Math.round(Date.now() / 1000),
+      signature = getNotificationSignature(body, timestamp, config.api_secret),
+    }: { timestamp?: number; signature?: string } = {},
+  ) => {
+    const response = await endpoint.handler({
+      payload,
+      text: async () => body,
+      headers: new Headers({
+        "x-cld-timestamp": String(timestamp),
+        "x-cld-signature": signature,
+      }),
+    } as any);
+    return { status: response.status, json: await response.json() };
+  };
+
+  return { docs, post };
+};
+
+describe("webhook endpoint", () => {
+  let env: ReturnType<typeof setup>;
+  beforeEach(() => {
+    env = setup();
+  });
+
+  test("stores eager derivatives", async () => {
+    const eager = [{ transformation: "w_300", secure_url: "https://x/w_300" }];
+    const { status, json } = await env.post(
+      JSON.stringify({
+        notification_type: "eager",
+        public_id: `${FOLDER}/photo`,
+        eager,
+      }),
+    );
+
+    expect(status).toBe(200);
+    expect(json).toEqual({ received: true });
+    expect(env.docs[0].cloudinary).toEqual({
+      public_id: `${FOLDER}/photo`,
+      version: "1",
+      eager,
+    });
+  });
+
+  test("stores moderation decisions", async () => {
+    const { status } = await env.post(
+      JSON.stringify({
+        notification_type: "moderation",
+        public_id: `${FOLDER}/photo`,
+        moderation_status: "approved",
+      }),
+    );
+
+    expect(status).toBe(200);
+    expect(env.docs[0].cloudinary.moderation_status).toBe("approved");
+  });
+
+  test("marks deleted assets", async () => {
+    const { status } = await env.post(
+      JSON.stringify({
+        notification_type: "delete",
+        resources: [
+          { public_id: `${FOLDER}/photo` },
+          { public_id: `${FOLDER}/video` },
+        ],
+      }),
+    );
+
+    expect(status).toBe(200);
+    expect(env.docs[0].cloudinary.deleted_at).toBeString();
+    expect(env.docs[1].cloudinary.deleted_at).toBeString();
+  });
+
+  test("rejects a wrong signature", async () => {
+    const body = JSON.stringify({
+      notification_type: "moderation",
+      public_id: `${FOLDER}/photo`,
+      moderation_status: "approved",
+    });
+    const { status } = await env.post(body, {
+      signature: getNotificationSignature(body, 0, "other-secret"),
+    });
+
+    expect(status).toBe(401);
+    expect(env.docs[0].cloudinary.moderation_status).toBeUndefined();
+  });
+
+  test("rejects a stale timestamp", async () => {
+    const { status } = await env.post(
+      JSON.stringify({
+        notification_type: "moderation",
+        public_id: `${FOLDER}/photo`,
+        moderation_status: "approved",
+      }),
+      { timestamp: Math.round(Date.now() / 1000) - 7201 },
+    );
+
+    expect(status).toBe(401);
+    expect(env.docs[0].cloudinary.moderation_status).toBeUndefined();
+  });
+
+  test("rejects a malformed body", async () => {
+    const { status } = await env.post("{ notification_type");
+
+    expect(status).toBe(400);
+  });
+});